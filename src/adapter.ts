@@ -1,15 +1,43 @@
 // import { _ } from "@feathersjs/commons";
-import { AdapterBase, filterQuery } from '@feathersjs/adapter-commons'
+import { AdapterBase, FILTERS, OPERATORS, filterQuery } from '@feathersjs/adapter-commons'
 import { errors } from '@feathersjs/errors'
 import { Client } from '@elastic/elasticsearch'
 import {
   ElasticsearchServiceOptions,
   ElasticsearchServiceParams,
   ElasticAdapterInterface,
-  SecurityConfig
+  PaginatedResult,
+  CursorResult,
+  SecurityConfig,
+  BulkOptions,
+  CircuitBreaker,
+  CustomOperators,
+  Distribution,
+  EmbeddingsOptions,
+  HealthStatus,
+  IndexSetupResult,
+  MappedFields,
+  QueryMappingOptions,
+  ReindexOptions,
+  ReindexResult,
+  RetryAttempt,
+  RetryConfig,
+  SuggestOptions,
+  Suggestion,
+  TaskStatus,
+  WaitForTaskOptions
 } from './types'
 import { errorHandler } from './error-handler'
 import { DEFAULT_SECURITY_CONFIG } from './utils/security'
+import { schemaToMappings } from './utils/schema-mappings'
+import { getCustomOperators } from './utils/operators'
+import { getSearchOperators } from './utils/query-handlers/search'
+import { validateEmbeddings } from './utils/embeddings'
+import { createRetryWrapper, isIdempotentRequest } from './utils/retry'
+import { createCircuitBreaker, createCircuitBreakerWrapper } from './utils/circuit-breaker'
+import { createCompatWrapper, getDistribution, getResponseBody, validateVersion } from './utils/compat'
+import { OPENSEARCH_ES_VERSION } from './config/versions'
+import { removeProps } from './utils/core'
 // const errors = require('@feathersjs/errors');
 // const debug = makeDebug('feathers-elasticsearch');
 
@@ -30,7 +58,29 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
   join?: string
   meta!: string
   esVersion?: string
+  configuredVersion?: string
+  detectedVersion?: string
+  detectedDistribution?: Distribution
+  versionDetection?: Promise<string>
+  distribution!: Distribution
   esParams?: Record<string, unknown>
+  pitKeepAlive?: string
+  optimisticConcurrency?: boolean
+  bulk?: BulkOptions
+  settings?: Record<string, unknown>
+  mappings?: Record<string, unknown>
+  aliases?: Record<string, unknown>
+  aliasIndex?: boolean
+  queryMapping?: boolean | QueryMappingOptions
+  mappingCache?: { fields: Promise<MappedFields | null>; loadedAt: number }
+  customOperators!: CustomOperators
+  searchFields?: string[]
+  vectorFields?: Record<string, number>
+  embeddings?: EmbeddingsOptions
+  highlight?: string
+  retry?: RetryConfig | false
+  indexSetup?: IndexSetupResult
+  circuitBreaker?: CircuitBreaker
   security!: Required<SecurityConfig>
   core: Record<string, unknown>
 
@@ -90,10 +140,15 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
         $type: (val: unknown) => val,
         $query: (val: unknown) => val,
         $operator: (val: unknown) => val,
-        $index: (val: unknown) => val
+        $index: (val: unknown) => val,
+        $aggs: (val: unknown) => val,
+        $after: (val: unknown) => val,
+        $highlight: (val: unknown) => val,
+        $knn: (val: unknown) => val,
+        $semantic: (val: unknown) => val
       },
       operators: [
-        ...(options.operators || []),
+        ...(Array.isArray(options.operators) ? options.operators : []),
         '$prefix',
         '$wildcard',
         '$regexp',
@@ -113,12 +168,45 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
         '$type',
         '$query',
         '$operator',
-        '$index'
+        '$index',
+        '$geoDistance',
+        '$geoBoundingBox',
+        '$geoPolygon',
+        '$geoShape',
+        '$distance',
+        '$point',
+        '$topLeft',
+        '$bottomRight',
+        '$points',
+        '$shape',
+        '$relation',
+        '$fuzziness',
+        '$minimumShouldMatch'
       ]
     })
 
     // Alias getters for options
-    ;['Model', 'index', 'parent', 'meta', 'join', 'esVersion', 'esParams'].forEach((name) =>
+    ;[
+      'Model',
+      'index',
+      'parent',
+      'meta',
+      'join',
+      'esParams',
+      'pitKeepAlive',
+      'optimisticConcurrency',
+      'bulk',
+      'settings',
+      'mappings',
+      'aliases',
+      'aliasIndex',
+      'queryMapping',
+      'searchFields',
+      'vectorFields',
+      'embeddings',
+      'highlight',
+      'retry'
+    ].forEach((name) =>
       Object.defineProperty(this, name, {
         get() {
           return this.options[name]
@@ -126,18 +214,76 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
       })
     )
 
+    // A configured version takes precedence over the detected one,
+    // OpenSearch is addressed like the Elasticsearch version it was forked from
+    Object.defineProperty(this, 'esVersion', {
+      get() {
+        return (
+          this.options.esVersion || (this.distribution === 'opensearch' ? OPENSEARCH_ES_VERSION : this.detectedVersion)
+        )
+      }
+    })
+    Object.defineProperty(this, 'configuredVersion', {
+      get() {
+        return this.options.esVersion
+      }
+    })
+    Object.defineProperty(this, 'distribution', {
+      get() {
+        return this.options.distribution || this.detectedDistribution || 'elasticsearch'
+      }
+    })
+
     // Initialize security configuration with defaults
     this.security = {
       ...DEFAULT_SECURITY_CONFIG,
       ...options.security
     }
 
+    // Register custom and full-text operators, special ones are top-level filters like $or
+    const filters = this.options.filters as Record<string, (val: unknown) => unknown>
+    const operators = this.options.operators as string[]
+    const searchOperators = getSearchOperators(options.searchFields || [], this.security.searchableFields)
+
+    this.customOperators = {
+      ...getCustomOperators(options.operators, [
+        ...OPERATORS,
+        ...Object.keys(FILTERS),
+        ...Object.keys(filters),
+        ...operators,
+        ...Object.keys(searchOperators)
+      ]),
+      ...searchOperators
+    }
+    Object.entries(this.customOperators).forEach(([name, operator]) => {
+      if (operator.kind === 'special') {
+        filters[name] = (val: unknown) => val
+      }
+
+      operators.push(name)
+    })
+
     // BREAKING CHANGE: Disable $index filter by default for security
     // Users must explicitly enable it via security.allowedIndices
     if (this.security.allowedIndices.length === 0 && this.options.filters?.$index) {
       delete this.options.filters.$index
     }
 
+    if (options.embeddings) {
+      validateEmbeddings(options.embeddings)
+    }
+
+    if (options.circuitBreaker) {
+      this.circuitBreaker = createCircuitBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker)
+    }
+
+    // Generate the mappings from the schema unless they are declared
+    if (options.schema && !options.mappings) {
+      ;(this.options as ElasticsearchServiceOptions).mappings = schemaToMappings(options.schema, {
+        exclude: [this.id, this.meta]
+      })
+    }
+
     // Set up core methods reference
     this.core = {
       find: methods.find,
@@ -145,6 +291,97 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
     }
   }
 
+  /**
+   * Gets the service to run a call with. Its client retries requests which fail with a transient error
+   * if they are idempotent (see `isIdempotentRequest`), with the `retry` option merged with `params.retry`.
+   * Every retry is emitted as a `retry` event. With the `circuitBreaker` option, every attempt goes
+   * through the circuit breaker, and none is sent while the circuit is open. Requests are converted to
+   * the shape of the Elasticsearch version (see `getCompatRequest`).
+   * @param {ElasticsearchServiceParams} params - Call parameters
+   * @returns {ElasticAdapter} The service with the wrapped client, or the service itself if there is nothing to wrap
+   */
+  getRetryService(params: ElasticsearchServiceParams = {}): this {
+    const { Model: client, retry } = this.options as ElasticsearchServiceOptions
+    const retries = !(params.retry === false || (retry === false && !params.retry))
+    const compatClient = this.esVersion
+      ? createCompatWrapper(client as unknown as Record<string, unknown>, this.esVersion, this.distribution)
+      : (client as unknown as Record<string, unknown>)
+
+    if (!retries && !this.circuitBreaker && compatClient === (client as unknown)) {
+      return this
+    }
+
+    const breakerClient = this.circuitBreaker
+      ? createCircuitBreakerWrapper(compatClient, this.circuitBreaker)
+      : compatClient
+    const config: RetryConfig = { ...retry, ...params.retry }
+    const onRetry = (attempt: RetryAttempt) => this.reportRetry(attempt, params)
+    const Model = retries
+      ? createRetryWrapper(breakerClient, { ...config, onRetry }, isIdempotentRequest)
+      : breakerClient
+
+    return new Proxy(this, {
+      get: (target, prop, receiver) => (prop === 'Model' ? Model : Reflect.get(target, prop, receiver))
+    })
+  }
+
+  /**
+   * Detects the version and the distribution (Elasticsearch or OpenSearch) with `info()` on first use,
+   * unless `esVersion` is configured. Then the distribution is not detected either, it is the `distribution`
+   * option or Elasticsearch. A failed detection is tried again with the next call.
+   * @returns {Promise} The version
+   * @throws {GeneralError} If the version is not one of `SUPPORTED_ES_VERSIONS` (`SUPPORTED_OPENSEARCH_VERSIONS`)
+   */
+  detectVersion(): Promise<string> {
+    const { esVersion } = this.options as ElasticsearchServiceOptions
+
+    if (esVersion) {
+      return Promise.resolve(esVersion)
+    }
+
+    if (!this.versionDetection) {
+      this.versionDetection = this.getRetryService()
+        .Model.info()
+        .then(
+          (response) => {
+            const { version } = getResponseBody<{ version: { number: string; distribution?: string } }>(response)
+
+            this.detectedDistribution = getDistribution(version)
+            return (this.detectedVersion = version.number)
+          },
+          (error) => {
+            this.versionDetection = undefined
+            throw error
+          }
+        )
+    }
+
+    return this.versionDetection.then((version) => validateVersion(version, this.distribution))
+  }
+
+  /**
+   * Reports a retry to the `onRetry` hook of the call or the service, and as a `retry` event
+   * @param {RetryAttempt} attempt - The failed attempt which is going to be retried
+   * @param {ElasticsearchServiceParams} params - Call parameters
+   */
+  reportRetry(attempt: RetryAttempt, params: ElasticsearchServiceParams = {}): void {
+    const { retry } = this.options as ElasticsearchServiceOptions
+    const config: RetryConfig = { ...retry, ...params.retry }
+
+    config.onRetry?.(attempt)
+    ;(this as unknown as { emit?: (event: string, data: unknown) => void }).emit?.('retry', attempt)
+  }
+
+  /**
+   * Runs a call once the Elasticsearch version is known
+   * @param {Function} run - Runs the call with the service of `getRetryService`
+   * @param {ElasticsearchServiceParams} params - Call parameters
+   * @returns {Promise} Result of the call
+   */
+  withService<T extends Promise<unknown>>(run: (service: this) => T, params: ElasticsearchServiceParams = {}): T {
+    return this.detectVersion().then(() => run(this.getRetryService(params))) as T
+  }
+
   /**
    * Filters and validates query parameters
    * @param {ElasticsearchServiceParams} params - Query parameters
@@ -175,16 +412,10 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
   // @ts-expect-error - Intentionally not matching all base class overloads
   async _find(
     params: ElasticsearchServiceParams = {}
-  ): Promise<
-    | Record<string, unknown>[]
-    | { total: number; skip: number; limit: number; data: Record<string, unknown>[] }
-  > {
-    return methods.find(this, params).catch((error: Error) => {
+  ): Promise<Record<string, unknown>[] | PaginatedResult | CursorResult> {
+    return this.withService((service) => methods.find(service, params), params).catch((error: Error) => {
       throw errorHandler(error, undefined)
-    }) as Promise<
-      | Record<string, unknown>[]
-      | { total: number; skip: number; limit: number; data: Record<string, unknown>[] }
-    >
+    }) as Promise<Record<string, unknown>[] | PaginatedResult | CursorResult>
   }
 
   /**
@@ -195,7 +426,10 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
    * @throws {NotFound} If document doesn't exist
    */
   _get(id: string | number, params: ElasticsearchServiceParams = {}): Promise<Record<string, unknown>> {
-    return (methods.get(this, id, params) as Promise<Record<string, unknown>>).catch((error: Error) => {
+    return this.withService(
+      (service) => methods.get(service, id, params) as Promise<Record<string, unknown>>,
+      params
+    ).catch((error: Error) => {
       throw errorHandler(error, id)
     })
   }
@@ -214,7 +448,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
   ): Promise<Record<string, unknown> | Record<string, unknown>[]> {
     // Check if we are creating single item.
     if (!Array.isArray(data)) {
-      return methods.create(this, data, params).catch((error: Error) => {
+      return this.withService((service) => methods.create(service, data, params), params).catch((error: Error) => {
         throw errorHandler(error, (data as Record<string, unknown>)[this.id] as string | number)
       }) as Promise<Record<string, unknown>>
     }
@@ -235,7 +469,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
       )
     }
 
-    return methods.createBulk(this, data, params).catch((error: Error) => {
+    return this.withService((service) => methods.createBulk(service, data, params), params).catch((error: Error) => {
       throw errorHandler(error)
     }) as Promise<Record<string, unknown>[]>
   }
@@ -249,7 +483,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
    * @throws {NotFound} If document doesn't exist
    */
   _update(id: string | number, data: Record<string, unknown>, params: ElasticsearchServiceParams = {}) {
-    return methods.update(this, id, data, params).catch((error: Error) => {
+    return this.withService((service) => methods.update(service, id, data, params), params).catch((error: Error) => {
       throw errorHandler(error, id)
     })
   }
@@ -269,7 +503,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
   ): Promise<Record<string, unknown> | Record<string, unknown>[]> {
     // Check if we are patching single item.
     if (id !== null) {
-      return methods.patch(this, id, data, params).catch((error: Error) => {
+      return this.withService((service) => methods.patch(service, id, data, params), params).catch((error: Error) => {
         throw errorHandler(error, id)
       }) as Promise<Record<string, unknown>>
     }
@@ -280,7 +514,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
       )
     }
 
-    return methods.patchBulk(this, data, params).catch((error: Error) => {
+    return this.withService((service) => methods.patchBulk(service, data, params), params).catch((error: Error) => {
       throw errorHandler(error)
     }) as Promise<Record<string, unknown>[]>
   }
@@ -294,7 +528,7 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
   // @ts-expect-error - Intentionally not matching all base class overloads
   _remove(id: string | number | null, params: ElasticsearchServiceParams = {}) {
     if (id !== null) {
-      return methods.remove(this, id, params).catch((error: Error) => {
+      return this.withService((service) => methods.remove(service, id, params), params).catch((error: Error) => {
         throw errorHandler(error, id)
       })
     }
@@ -305,7 +539,129 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
       )
     }
 
-    return methods.removeBulk(this, params).catch((error: Error) => {
+    return this.withService((service) => methods.removeBulk(service, params), params).catch((error: Error) => {
+      throw errorHandler(error)
+    })
+  }
+
+  /**
+   * Iterate over all documents matching the query
+   * @param {ElasticsearchServiceParams} params - Query parameters
+   * @returns {AsyncGenerator} Async iterator of documents
+   */
+  async *_iterate(params: ElasticsearchServiceParams = {}): AsyncGenerator<Record<string, unknown>> {
+    try {
+      await this.detectVersion()
+      yield* methods.iterate(this.getRetryService(params), params)
+    } catch (error) {
+      throw errorHandler(error as Error)
+    }
+  }
+
+  /**
+   * Create the index if it is missing and check the declared mappings against the live ones
+   * @returns {Promise} Whether the index was created and the mapping differences
+   */
+  async _setup(): Promise<IndexSetupResult> {
+    // Nothing to set up, the cluster does not have to be reachable when the app starts
+    if (!this.settings && !this.mappings && !this.aliases && !this.aliasIndex) {
+      return (this.indexSetup = { created: false })
+    }
+
+    try {
+      this.indexSetup = await this.withService((service) => methods.setupIndex(service))
+      // Reload the mapping of a created or changed index with the next query
+      this.mappingCache = undefined
+    } catch (error) {
+      throw errorHandler(error as Error, undefined, `Could not set up index ${this.index}`)
+    }
+
+    return this.indexSetup
+  }
+
+  /**
+   * Reindex the documents of the index alias into a new physical index and swap the alias
+   * @param {Object} settings - Settings of the new index
+   * @param {Object} mappings - Mappings of the new index
+   * @param {ReindexOptions} options - Reindex options
+   * @returns {Promise} Previous and new physical index
+   */
+  _reindexTo(
+    settings?: Record<string, unknown>,
+    mappings?: Record<string, unknown>,
+    options: ReindexOptions = {}
+  ): Promise<ReindexResult> {
+    return this.withService((service) => methods.reindexTo(service, settings, mappings, options)).catch(
+      (error: Error) => {
+        throw errorHandler(error, undefined, `Could not reindex ${this.index}`)
+      }
+    )
+  }
+
+  /**
+   * Move the index alias back to the previous physical index of a reindex
+   * @param {ReindexResult} result - Result of the reindex
+   * @param {Object} options - `deleteNew` to delete the new index
+   * @returns {Promise}
+   */
+  _rollbackReindex(result: Pick<ReindexResult, 'from' | 'to'>, options: { deleteNew?: boolean } = {}): Promise<void> {
+    return this.withService((service) => methods.rollbackReindex(service, result, options)).catch((error: Error) => {
+      throw errorHandler(error, undefined, `Could not roll back reindex of ${this.index}`)
+    })
+  }
+
+  /**
+   * Get the status of a by-query or reindex task
+   * @param {string} id - Task id
+   * @returns {Promise} Normalized task status
+   */
+  _getTask(id: string): Promise<TaskStatus> {
+    return this.withService((service) => methods.getTask(service, id)).catch((error: Error) => {
+      throw errorHandler(error, id)
+    })
+  }
+
+  /**
+   * Cancel a running by-query or reindex task
+   * @param {string} id - Task id
+   * @returns {Promise} Task status after the cancellation request
+   */
+  _cancelTask(id: string): Promise<TaskStatus> {
+    return this.withService((service) => methods.cancelTask(service, id)).catch((error: Error) => {
+      throw errorHandler(error, id)
+    })
+  }
+
+  /**
+   * Wait until a by-query or reindex task has completed
+   * @param {string} id - Task id
+   * @param {WaitForTaskOptions} options - Poll interval and timeout
+   * @returns {Promise} Status of the completed task
+   */
+  _waitForTask(id: string, options: WaitForTaskOptions = {}): Promise<TaskStatus> {
+    return this.withService((service) => methods.waitForTask(service, id, options)).catch((error: Error) => {
+      throw errorHandler(error, id)
+    })
+  }
+
+  /**
+   * Get completion, term or phrase suggestions
+   * @param {string} text - Text to complete or correct
+   * @param {SuggestOptions} options - Suggester, field and size
+   * @returns {Promise} Normalized suggestions
+   */
+  _suggest(text: string, options: SuggestOptions): Promise<Suggestion[]> {
+    return this.withService((service) => methods.suggest(service, text, options)).catch((error: Error) => {
+      throw errorHandler(error)
+    })
+  }
+
+  /**
+   * Report the health of the cluster and the service index
+   * @returns {Promise} Health report
+   */
+  _health(): Promise<HealthStatus> {
+    return methods.health(this).catch((error: Error) => {
       throw errorHandler(error)
     })
   }
@@ -317,7 +673,10 @@ export class ElasticAdapter extends AdapterBase implements ElasticAdapterInterfa
    * @returns {Promise} Raw Elasticsearch response
    */
   _raw(method: string, params: ElasticsearchServiceParams = {}) {
-    return methods.raw(this, method, params).catch((error: Error) => {
+    // `retry` configures the call, it is no parameter of the request
+    const request = removeProps(params as Record<string, unknown>, 'retry') as ElasticsearchServiceParams
+
+    return this.withService((service) => methods.raw(service, method, request), params).catch((error: Error) => {
       throw errorHandler(error)
     })
   }
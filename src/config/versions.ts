@@ -22,14 +22,51 @@ export const ES_TYPE_REQUIREMENTS: VersionMapping<string | null> = {
 }
 
 /**
- * Mapping path patterns by ES version
+ * Path of the field properties in an index entry of a get mapping response, by ES version
  */
 export const ES_MAPPING_PATHS: VersionMapping<string[]> = {
-  '5.0': ['test.mappings.aka._parent.type', 'people'],
-  '6.0': ['test-people.mappings.doc.properties.aka.type', 'join'],
-  '7.0': ['test-people.mappings.properties.aka.type', 'join'],
-  '8.0': ['test-people.mappings.properties.aka.type', 'join'],
-  '9.0': ['test-people.mappings.properties.aka.type', 'join']
+  '5.0': ['mappings', 'default', 'properties'],
+  '6.0': ['mappings', '_doc', 'properties'],
+  '7.0': ['mappings', 'properties'],
+  '8.0': ['mappings', 'properties'],
+  '9.0': ['mappings', 'properties']
+}
+
+/**
+ * Request syntax of reciprocal rank fusion by ES version: the `rank` option (8.8) or an `rrf` retriever (8.14)
+ */
+export const ES_RRF_SYNTAX: VersionMapping<'rank' | 'retriever' | null> = {
+  '5.0': null,
+  '6.0': null,
+  '7.0': null,
+  '8.0': null,
+  '8.8': 'rank',
+  '8.14': 'retriever',
+  '9.0': 'retriever'
+}
+
+/**
+ * Whether request bodies are sent in the `body` parameter, by ES version. Clients before 8.0 take the body
+ * as a whole, later ones take its properties as top-level parameters (and still accept `body`).
+ */
+export const ES_REQUEST_BODY: VersionMapping<boolean> = {
+  '5.0': true,
+  '6.0': true,
+  '7.0': true,
+  '8.0': false,
+  '9.0': false
+}
+
+/**
+ * Format of `hits.total` in search responses by ES version: a number, or `{ value, relation }` since 7.0
+ * which is counted exactly up to `track_total_hits`
+ */
+export const ES_TOTAL_HITS: VersionMapping<'number' | 'object'> = {
+  '5.0': 'number',
+  '6.0': 'number',
+  '7.0': 'object',
+  '8.0': 'object',
+  '9.0': 'object'
 }
 
 /**
@@ -37,6 +74,16 @@ export const ES_MAPPING_PATHS: VersionMapping<string[]> = {
  */
 export const SUPPORTED_ES_VERSIONS = ['5.0', '6.0', '7.0', '8.0', '8.15', '9.0']
 
+/**
+ * Supported OpenSearch versions
+ */
+export const SUPPORTED_OPENSEARCH_VERSIONS = ['1.0', '2.0']
+
+/**
+ * Elasticsearch version whose API OpenSearch keeps, used to look up the tables above for OpenSearch
+ */
+export const OPENSEARCH_ES_VERSION = '7.10'
+
 /**
  * Default ES version if none specified
  */
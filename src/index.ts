@@ -1,5 +1,13 @@
+import { Readable } from 'stream'
 import { ElasticAdapter } from './adapter'
-import { ElasticsearchServiceOptions, ElasticsearchServiceParams } from './types'
+import {
+  ElasticsearchServiceOptions,
+  ElasticsearchServiceParams,
+  ReindexOptions,
+  ReindexResult,
+  SuggestOptions,
+  WaitForTaskOptions
+} from './types'
 
 // Types will be exported through module declaration
 
@@ -126,6 +134,134 @@ class Service extends ElasticAdapter {
     return this._remove(id, params)
   }
 
+  /**
+   * Iterate over every document matching the query, without the 10,000 result window limit
+   * @param params - Query parameters, `batchSize` controls documents fetched per request
+   * @returns Async iterable of documents
+   *
+   * @example
+   * for await (const doc of service.iterate({ query: { status: 'active' } })) {
+   *   await exportDocument(doc)
+   * }
+   */
+  iterate(params?: ElasticsearchServiceParams): AsyncIterable<Record<string, unknown>> {
+    return this._iterate(params)
+  }
+
+  /**
+   * Stream every document matching the query
+   * @param params - Query parameters, `batchSize` controls documents fetched per request
+   * @returns Readable stream in object mode
+   *
+   * @example
+   * await pipeline(service.stream({ query: { $select: ['name'] } }), toNdjson, fs.createWriteStream('out.ndjson'))
+   */
+  stream(params?: ElasticsearchServiceParams): Readable {
+    return Readable.from(this._iterate(params), { objectMode: true })
+  }
+
+  /**
+   * Called by Feathers when the service is registered. Creates the index from the `settings`,
+   * `mappings` and `aliases` options if it does not exist yet and checks the declared mappings
+   * of an existing index, the result is available as `service.indexSetup`.
+   */
+  async setup() {
+    await this._setup()
+  }
+
+  /**
+   * Reindex into a new physical index with new settings and mappings and swap the index alias.
+   * Requires `index` to be an alias (see the `aliasIndex` option).
+   * @param settings - Settings of the new index (default: the `settings` option)
+   * @param mappings - Mappings of the new index (default: the `mappings` option)
+   * @param options - `index`, `slices`, `deleteOld`, `onProgress`, `pollInterval` and `timeout`
+   * @returns Promise resolving to the previous and new physical index and the copied documents
+   *
+   * @example
+   * const result = await service.reindexTo(undefined, newMappings, {
+   *   onProgress: ({ percent }) => console.log(`${percent}%`)
+   * })
+   */
+  async reindexTo(
+    settings?: Record<string, unknown>,
+    mappings?: Record<string, unknown>,
+    options?: ReindexOptions
+  ) {
+    return this._reindexTo(settings, mappings, options)
+  }
+
+  /**
+   * Move the index alias back to the previous physical index of a `reindexTo()`
+   * @param result - Result of `reindexTo()`
+   * @param options - `deleteNew` to delete the new index
+   */
+  async rollbackReindex(result: Pick<ReindexResult, 'from' | 'to'>, options?: { deleteNew?: boolean }) {
+    return this._rollbackReindex(result, options)
+  }
+
+  /**
+   * Get the status of a by-query or reindex task started with `waitForCompletion: false`
+   * @param id - Task id
+   * @returns Promise resolving to the task status and progress
+   *
+   * @example
+   * const { task } = await service.remove(null, { query: { archived: true }, byQuery: { waitForCompletion: false } })
+   * const { completed, percent } = await service.getTask(task)
+   */
+  async getTask(id: string) {
+    return this._getTask(id)
+  }
+
+  /**
+   * Cancel a running by-query or reindex task
+   * @param id - Task id
+   * @returns Promise resolving to the task status after the cancellation request
+   */
+  async cancelTask(id: string) {
+    return this._cancelTask(id)
+  }
+
+  /**
+   * Wait until a by-query or reindex task has completed
+   * @param id - Task id
+   * @param options - `pollInterval` and `timeout` in milliseconds
+   * @returns Promise resolving to the status of the completed task
+   *
+   * @example
+   * await service.waitForTask(task, { pollInterval: 500, timeout: 60000 })
+   */
+  async waitForTask(id: string, options?: WaitForTaskOptions) {
+    return this._waitForTask(id, options)
+  }
+
+  /**
+   * Get suggestions for search as you type (completion) or did you mean (term, phrase)
+   * @param text - Text to complete or correct
+   * @param options - Suggester type, field, size and completion contexts
+   * @returns Promise resolving to `{ text, score, payload }` suggestions
+   *
+   * @example
+   * await service.suggest('elast', { field: 'suggest', contexts: { category: ['books'] } })
+   * await service.suggest('elasticsaerch', { type: 'term', field: 'title' })
+   */
+  async suggest(text: string, options: SuggestOptions) {
+    return this._suggest(text, options)
+  }
+
+  /**
+   * Report the health of the cluster and the service index, e.g. for a readiness probe
+   * @returns Promise resolving to the cluster and index health, the detected version and the circuit and retry state
+   *
+   * @example
+   * app.get('/ready', async (req, res) => {
+   *   const health = await app.service('people').health()
+   *   res.status(health.ready ? 200 : 503).json(health)
+   * })
+   */
+  async health() {
+    return this._health()
+  }
+
   /**
    * Execute raw Elasticsearch API methods
    * @param method - Elasticsearch method name (e.g., 'search', 'indices.getMapping')
@@ -169,3 +305,5 @@ function service(options: ElasticsearchServiceOptions) {
 
 // ESM default export
 export default service
+
+export { schemaToMappings } from './utils/schema-mappings'
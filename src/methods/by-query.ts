@@ -0,0 +1,145 @@
+'use strict'
+
+import { errors } from '@feathersjs/errors'
+import { getDocDescriptor } from '../utils/index'
+import { mergeESParamsWithRefresh } from '../utils/params'
+import { compileUpdateScript } from '../utils/update-operators'
+import {
+  ByQueryOptions,
+  ByQueryResult,
+  ByQueryTask,
+  ElasticsearchServiceParams,
+  ElasticAdapterInterface,
+  MappedFields
+} from '../types'
+import { prepareFind } from './find'
+import { loadMapping } from './load-mapping'
+
+/**
+ * Builds the request shared by update_by_query and delete_by_query
+ */
+function prepareByQueryRequest(
+  service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams,
+  fields: MappedFields | null
+) {
+  const { filters, esQuery } = prepareFind(service, params, fields, 'with byQuery')
+  const options: ByQueryOptions = typeof params.byQuery === 'object' ? params.byQuery : {}
+
+  if (filters.$skip) {
+    throw new errors.BadRequest('$skip can not be used with byQuery')
+  }
+
+  if (options.conflicts !== undefined && !['abort', 'proceed'].includes(options.conflicts)) {
+    throw new errors.BadRequest("byQuery.conflicts must be 'abort' or 'proceed'")
+  }
+
+  if (
+    options.slices !== undefined &&
+    options.slices !== 'auto' &&
+    (!Number.isInteger(options.slices) || (options.slices as number) < 1)
+  ) {
+    throw new errors.BadRequest("byQuery.slices must be a positive integer or 'auto'")
+  }
+
+  const request: Record<string, unknown> = {
+    index: (filters.$index as string) ?? service.index,
+    query: esQuery ? { bool: esQuery } : { match_all: {} },
+    ...mergeESParamsWithRefresh(service.esParams, params)
+  }
+
+  // The by-query APIs only accept a boolean refresh
+  if (request.refresh === 'wait_for') {
+    request.refresh = true
+  }
+
+  if (filters.$routing !== undefined) {
+    request.routing = filters.$routing
+  }
+
+  // Only an explicit $limit caps the documents, filterQuery also fills in the default page size
+  if (params.query?.$limit !== undefined && filters.$limit !== undefined) {
+    request.max_docs = filters.$limit
+  }
+
+  if (options.slices !== undefined) {
+    request.slices = options.slices
+  }
+
+  if (options.conflicts !== undefined) {
+    request.conflicts = options.conflicts
+  }
+
+  if (options.waitForCompletion === false) {
+    request.wait_for_completion = false
+  }
+
+  return request
+}
+
+/**
+ * Maps an update_by_query / delete_by_query response to a summary
+ */
+function mapByQueryResult(
+  result: Record<string, unknown>,
+  counter: 'updated' | 'deleted'
+): ByQueryResult | ByQueryTask {
+  if (typeof result.task === 'string') {
+    return { task: result.task }
+  }
+
+  return {
+    total: (result.total as number) || 0,
+    [counter]: (result[counter] as number) || 0,
+    versionConflicts: (result.version_conflicts as number) || 0,
+    noops: (result.noops as number) || 0,
+    failures: (result.failures as Array<Record<string, unknown>>) || [],
+    took: result.took as number,
+    timedOut: !!result.timed_out
+  }
+}
+
+/**
+ * Patches all documents matching the query on the server with update_by_query.
+ * The patch data (including update operators) is compiled into a painless script.
+ * @param service - The Elasticsearch service instance
+ * @param data - Data to patch
+ * @param params - Service parameters with `byQuery` set
+ * @returns Summary of the operation, or the task id when not waiting for completion
+ */
+export async function patchByQuery(
+  service: ElasticAdapterInterface,
+  data: Record<string, unknown>,
+  params: ElasticsearchServiceParams
+): Promise<ByQueryResult | ByQueryTask> {
+  const { doc } = getDocDescriptor(service, data)
+  const script = compileUpdateScript(doc)
+
+  if (!script.source) {
+    throw new errors.BadRequest('byQuery patch data can not be empty')
+  }
+
+  const request = prepareByQueryRequest(service, params, await loadMapping(service))
+
+  request.script = script
+
+  const result = await service.Model.updateByQuery(request as never)
+
+  return mapByQueryResult(result as unknown as Record<string, unknown>, 'updated')
+}
+
+/**
+ * Removes all documents matching the query on the server with delete_by_query.
+ * @param service - The Elasticsearch service instance
+ * @param params - Service parameters with `byQuery` set
+ * @returns Summary of the operation, or the task id when not waiting for completion
+ */
+export async function removeByQuery(
+  service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams
+): Promise<ByQueryResult | ByQueryTask> {
+  const request = prepareByQueryRequest(service, params, await loadMapping(service))
+  const result = await service.Model.deleteByQuery(request as never)
+
+  return mapByQueryResult(result as unknown as Record<string, unknown>, 'deleted')
+}
@@ -1,58 +1,144 @@
 'use strict'
 
-import { mapBulk, getDocDescriptor } from '../utils/index'
+import { mapBulk, getDocDescriptor, toBulkResult, getBulkChunks, mapConcurrent, addEmbeddings } from '../utils/index'
 import { mergeESParamsWithRefresh } from '../utils/params'
-import { ElasticsearchServiceParams, ElasticAdapterInterface } from '../types'
+import { getDocumentSize } from '../utils/security'
+import { DEFAULT_RETRY_CONFIG, RetryAttempt, calculateDelay } from '../utils/retry'
+import { ElasticsearchServiceParams, ElasticAdapterInterface, ESBulkResponseItem } from '../types'
 import { getBulk } from './get-bulk'
 
-function getBulkCreateParams(
+const DEFAULT_BULK_OPTIONS = {
+  maxDocuments: 1000,
+  maxBytes: 5 * 1024 * 1024,
+  concurrency: 2
+}
+
+type BulkItemOperation = [Record<string, Record<string, unknown>>, Record<string, unknown>]
+
+function getBulkCreateOperations(
   service: ElasticAdapterInterface,
   data: Record<string, unknown>[],
   params: ElasticsearchServiceParams
 ) {
   const { filters } = service.filterQuery(params)
-  const index = filters?.$index || service.index
-
-  // PERFORMANCE: Merge esParams with per-operation refresh override
-  return Object.assign(
-    {
-      index,
-      body: data.reduce((result: Array<Record<string, unknown>>, item: Record<string, unknown>) => {
-        const { id, parent, routing, join, doc } = getDocDescriptor(service, item)
-        const method = id !== undefined && !params.upsert ? 'create' : 'index'
-
-        if (join) {
-          ;(doc as Record<string, unknown>)[service.join as string] = {
-            name: join,
-            parent
-          }
-        }
-
-        const op: Record<string, Record<string, unknown>> = { [method]: { _index: index as string, _id: id } }
-        if (routing) {
-          op[method].routing = routing
-        }
-
-        result.push(op)
-        result.push(doc)
-
-        return result
-      }, [])
-    },
-    mergeESParamsWithRefresh(service.esParams, params)
+  const index = (filters?.$index || service.index) as string
+
+  const operations = data.map((item: Record<string, unknown>): BulkItemOperation => {
+    const { id, parent, routing, join, doc } = getDocDescriptor(service, item)
+    const method = id !== undefined && !params.upsert ? 'create' : 'index'
+
+    if (join) {
+      ;(doc as Record<string, unknown>)[service.join as string] = {
+        name: join,
+        parent
+      }
+    }
+
+    const op: Record<string, Record<string, unknown>> = { [method]: { _index: index, _id: id } }
+    if (routing) {
+      op[method].routing = routing
+    }
+
+    return [op, doc]
+  })
+
+  return { index, operations }
+}
+
+/**
+ * Sends one chunk of bulk operations. Only the items rejected with 429 are sent again, with backoff,
+ * the request is not retried as a whole as that would repeat the writes which succeeded.
+ * Items still rejected once retries are exhausted are returned as failed.
+ */
+async function sendBulkChunk(
+  service: ElasticAdapterInterface,
+  index: string,
+  operations: BulkItemOperation[],
+  params: ElasticsearchServiceParams
+): Promise<ESBulkResponseItem[]> {
+  const config = { ...DEFAULT_RETRY_CONFIG, ...service.bulk?.retry }
+  const items: ESBulkResponseItem[] = new Array(operations.length)
+  let pending = operations.map((_operation, position) => position)
+
+  for (let attempt = 0; pending.length; attempt++) {
+    // PERFORMANCE: Merge esParams with per-operation refresh override
+    const bulkCreateParams = Object.assign(
+      { index, body: pending.flatMap((position) => operations[position]) },
+      mergeESParamsWithRefresh(service.esParams, params)
+    )
+    const results = (await service.Model.bulk(bulkCreateParams as never)) as unknown as {
+      items: ESBulkResponseItem[]
+    }
+
+    pending = pending.filter((position, i) => {
+      const item = results.items[i]
+      const operation = item.create || item.index
+
+      items[position] = item
+
+      return operation?.status === 429
+    })
+
+    // Keep the rejected items as failures once retries are exhausted
+    if (!pending.length || attempt >= config.maxRetries) {
+      break
+    }
+
+    const retry: RetryAttempt = {
+      method: 'bulk',
+      attempt: attempt + 1,
+      maxRetries: config.maxRetries,
+      delay: calculateDelay(attempt, config),
+      error: Object.assign(new Error(`${pending.length} bulk items were rejected`), {
+        name: 'ResponseError',
+        meta: { statusCode: 429 }
+      })
+    }
+
+    config.onRetry?.(retry)
+    service.reportRetry(retry, params)
+    await new Promise((resolve) => setTimeout(resolve, retry.delay))
+  }
+
+  return items
+}
+
+/**
+ * Sends the bulk operations in chunks limited by document count and size,
+ * with bounded concurrency, and merges the results back in input order
+ */
+async function sendBulk(
+  service: ElasticAdapterInterface,
+  index: string,
+  operations: BulkItemOperation[],
+  params: ElasticsearchServiceParams
+): Promise<{ items: ESBulkResponseItem[] }> {
+  const { maxDocuments, maxBytes, concurrency } = { ...DEFAULT_BULK_OPTIONS, ...service.bulk }
+  // One newline per action and document line
+  const sizes = operations.map(([op, doc]) => getDocumentSize(op) + getDocumentSize(doc) + 2)
+  const chunks = getBulkChunks(sizes, maxDocuments, maxBytes)
+
+  const results = await mapConcurrent(chunks, concurrency, ([start, end]) =>
+    sendBulkChunk(service, index, operations.slice(start, end), params)
   )
+
+  return { items: results.flat() }
 }
 
-export function createBulk(
+export async function createBulk(
   service: ElasticAdapterInterface,
   data: Record<string, unknown>[],
   params: ElasticsearchServiceParams
 ) {
-  const bulkCreateParams = getBulkCreateParams(service, data, params)
+  // The embeddings of all documents are computed in batches before any chunk is sent
+  const { index, operations } = getBulkCreateOperations(service, await addEmbeddings(service.embeddings, data), params)
 
-  return service.Model.bulk(bulkCreateParams as never).then(
-    (results: { items: Array<Record<string, unknown>> }) => {
+  return sendBulk(service, index, operations, params).then(
+    (results: { items: ESBulkResponseItem[] }) => {
       const created = mapBulk(results.items, service.id, service.meta, service.join)
+      // Report failed items separately if requested
+      const finish = (aligned: unknown[]) =>
+        params.bulkResult ? toBulkResult(aligned, results.items, params.bulkResult) : aligned
       // We are fetching only items which have been correctly created.
       const docs = created
         .map((item, index) =>
@@ -74,12 +160,12 @@ export function createBulk(
         }))
 
       if (!docs.length) {
-        return created
+        return finish(created)
       }
 
       // PERFORMANCE: Lean mode - skip fetching full documents if requested
       if (params.lean) {
-        return created
+        return finish(created)
       }
 
       return getBulk(service, docs, params).then((fetched: unknown[]) => {
@@ -87,19 +173,21 @@ export function createBulk(
 
         // We need to return responses for all items, either success or failure,
         // in the same order as the request.
-        return created.map((createdItem) => {
-          if (
-            (createdItem as Record<string, Record<string, unknown>>)[service.meta as string].status === 201
-          ) {
-            const fetchedItem = fetched[fetchedIndex]
+        return finish(
+          created.map((createdItem) => {
+            if (
+              (createdItem as Record<string, Record<string, unknown>>)[service.meta as string].status === 201
+            ) {
+              const fetchedItem = fetched[fetchedIndex]
 
-            fetchedIndex += 1
+              fetchedIndex += 1
 
-            return fetchedItem
-          }
+              return fetchedItem
+            }
 
-          return createdItem
-        })
+            return createdItem
+          })
+        )
       })
     }
   )
@@ -1,4 +1,4 @@
-import { getDocDescriptor } from '../utils/index'
+import { addEmbeddings, getDocDescriptor } from '../utils/index'
 import { prepareGetParams, mergeESParamsWithRefresh } from '../utils/params'
 import { ElasticsearchServiceParams, ElasticAdapterInterface, DocDescriptor, IndexRequest } from '../types'
 import { get } from './get'
@@ -44,12 +44,13 @@ function getCreateParams(
   return Object.assign(indexParams, cleanEsParams)
 }
 
-export function create(
+export async function create(
   service: ElasticAdapterInterface,
   data: Record<string, unknown>,
   params: ElasticsearchServiceParams = {}
 ) {
-  const docDescriptor = getDocDescriptor(service, data)
+  const [embedded] = await addEmbeddings(service.embeddings, [data])
+  const docDescriptor = getDocDescriptor(service, embedded)
   const { id, routing } = docDescriptor
   const createParams = getCreateParams(service, docDescriptor, params)
   const getParams = prepareGetParams(params, 'upsert')
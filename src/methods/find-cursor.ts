@@ -0,0 +1,148 @@
+'use strict'
+
+import { PaginationOptions } from '@feathersjs/adapter-commons'
+import { errors } from '@feathersjs/errors'
+import { getHighlight, mapFind, removeProps } from '../utils/index'
+import { encodeCursor, decodeCursor, getCursorSort } from '../utils/cursor'
+import {
+  ElasticAdapterInterface,
+  ElasticsearchError,
+  CursorResult,
+  ESQuery,
+  ESSearchResponse,
+  SearchRequest
+} from '../types'
+
+const DEFAULT_PIT_KEEP_ALIVE = '1m'
+const DEFAULT_CURSOR_LIMIT = 10
+
+/**
+ * Opens a point-in-time on the service index
+ * @param service - The Elasticsearch service instance
+ * @param index - Index (or alias) to open the point-in-time on
+ * @param routing - Optional routing value
+ * @returns The point-in-time id
+ */
+export async function openPit(service: ElasticAdapterInterface, index: string, routing?: string): Promise<string> {
+  const result = await service.Model.openPointInTime({
+    index,
+    keep_alive: service.pitKeepAlive || DEFAULT_PIT_KEEP_ALIVE,
+    ...(routing !== undefined && { routing })
+  })
+
+  return result.id
+}
+
+/**
+ * Closes a point-in-time, ignoring errors as it expires on its own anyway
+ * @param service - The Elasticsearch service instance
+ * @param id - The point-in-time id
+ */
+export async function closePit(service: ElasticAdapterInterface, id: string): Promise<void> {
+  await service.Model.closePointInTime({ id }).catch(() => undefined)
+}
+
+/**
+ * Runs one `search_after` page against an open point-in-time
+ * @param service - The Elasticsearch service instance
+ * @param pit - The point-in-time id
+ * @param request - Search request without `index` (which is implied by the point-in-time)
+ * @param after - Sort values of the last hit of the previous page
+ * @returns Raw search response
+ */
+export async function searchAfter(
+  service: ElasticAdapterInterface,
+  pit: string,
+  request: SearchRequest,
+  after?: unknown[]
+): Promise<ESSearchResponse & { pit_id?: string }> {
+  // Search requests against a point-in-time must not set an index or routing
+  const esParams = removeProps(service.esParams || {}, 'index', 'routing', 'refresh')
+  const result = await service.Model.search({
+    ...esParams,
+    ...request,
+    pit: { id: pit, keep_alive: service.pitKeepAlive || DEFAULT_PIT_KEEP_ALIVE },
+    ...(after && { search_after: after as never })
+  })
+
+  return result as unknown as ESSearchResponse & { pit_id?: string }
+}
+
+/**
+ * Finds one page of documents using a point-in-time and `search_after`.
+ * Unlike `from/size` this is not limited by `max_result_window` and pages are stable while writes happen.
+ * The point-in-time is closed once the last page has been read.
+ * @param service - The Elasticsearch service instance
+ * @param filters - Filters returned by `filterQuery`
+ * @param paginate - Pagination settings
+ * @param esQuery - The parsed bool query
+ * @returns The page with an opaque `next` cursor (null on the last page)
+ */
+export async function findCursor(
+  service: ElasticAdapterInterface,
+  filters: Record<string, unknown>,
+  paginate: PaginationOptions | false | undefined,
+  esQuery: ESQuery | null
+): Promise<CursorResult> {
+  if (filters.$skip) {
+    throw new errors.BadRequest('$skip can not be used with cursor pagination, use $after instead')
+  }
+
+  const state = filters.$after !== undefined && filters.$after !== null ? decodeCursor(filters.$after) : undefined
+  const index = (filters.$index as string) ?? service.index
+  const pit = state ? state.pit : await openPit(service, index, filters.$routing as string | undefined)
+  const highlight = getHighlight(filters.$highlight)
+  const limit =
+    filters.$limit !== undefined ? (filters.$limit as number) : (paginate && paginate.default) || DEFAULT_CURSOR_LIMIT
+
+  let result: ESSearchResponse & { pit_id?: string }
+
+  try {
+    result = await searchAfter(
+      service,
+      pit,
+      {
+        size: limit,
+        sort: getCursorSort(filters.$sort) as SearchRequest['sort'],
+        query: esQuery ? { bool: esQuery } : undefined,
+        _source: filters.$select as string[] | boolean | undefined,
+        ...(highlight && { highlight: highlight as never }),
+        ...(service.optimisticConcurrency && { seq_no_primary_term: true })
+      },
+      state?.after
+    )
+  } catch (error) {
+    if ((error as ElasticsearchError).meta?.body?.error?.type === 'search_context_missing_exception') {
+      throw new errors.BadRequest('Cursor has expired, start again without $after')
+    }
+
+    if (!state) {
+      await closePit(service, pit)
+    }
+
+    throw error
+  }
+
+  const data = mapFind(
+    result,
+    service.id,
+    service.meta || '',
+    service.join,
+    undefined,
+    false,
+    undefined,
+    service.highlight
+  ) as Record<string, unknown>[]
+  const hits = result.hits.hits as Array<{ sort?: unknown[] }>
+  const nextPit = result.pit_id || pit
+  const total = typeof result.hits.total === 'object' ? result.hits.total.value : result.hits.total
+  let next: string | null = null
+
+  if (limit > 0 && hits.length === limit && hits[hits.length - 1].sort) {
+    next = encodeCursor({ pit: nextPit, after: hits[hits.length - 1].sort as unknown[] })
+  } else {
+    await closePit(service, nextPit)
+  }
+
+  return { total, data, next }
+}
@@ -1,14 +1,48 @@
 'use strict'
 
-import { parseQuery, mapFind } from '../utils/index'
+import { errors } from '@feathersjs/errors'
+import {
+  parseQuery,
+  mapFind,
+  getAggregations,
+  getHighlight,
+  getKnnRequest,
+  getSemanticKnn,
+  getVectorFields,
+  usesRankFusion,
+  validateAggregations
+} from '../utils/index'
 import { validateQueryComplexity } from '../utils/security'
-import { ElasticsearchServiceParams, ElasticAdapterInterface, SearchRequest } from '../types'
+import { translateQuery, validateMappedFields } from '../utils/query-mapping'
+import { getOperatorWeights } from '../utils/operators'
+import { hasFullTextQuery } from '../utils/query-handlers/search'
+import { ElasticsearchServiceParams, ElasticAdapterInterface, KnnQuery, MappedFields, SearchRequest } from '../types'
+import { findCursor } from './find-cursor'
+import { loadMapping } from './load-mapping'
 
-export function find(service: ElasticAdapterInterface, params: ElasticsearchServiceParams) {
+/**
+ * Filters the params and parses the query into an Elasticsearch bool query
+ * @param service - The Elasticsearch service instance
+ * @param params - Service parameters
+ * @param fields - Mapped fields of the service index to translate the query with (see `loadMapping`)
+ * @param caller - Set by callers which can not run vector searches, to name them in errors (e.g. 'when iterating')
+ * @returns Filters, pagination settings and the parsed bool query (or null)
+ * @throws BadRequest for `$knn` and `$semantic` if a caller is set
+ */
+export function prepareFind(
+  service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams,
+  fields: MappedFields | null = null,
+  caller?: string
+) {
   const { filters, query, paginate } = service.filterQuery(params)
 
-  // PERFORMANCE: Validate query complexity budget
-  validateQueryComplexity(query, service.security.maxQueryComplexity)
+  // Only find() resolves $semantic and sends kNN searches, other callers would ignore them and match every document
+  const vectorSearch = ['$knn', '$semantic'].find((name) => filters[name] !== undefined)
+  if (caller !== undefined && vectorSearch) {
+    throw new errors.BadRequest(`${vectorSearch} can not be used ${caller}`)
+  }
+  const operators = service.customOperators || {}
 
   // Move Elasticsearch-specific operators from filters back to query for parseQuery
   const esOperators = [
@@ -26,7 +60,8 @@ export function find(service: ElasticAdapterInterface, params: ElasticsearchServ
     '$parent',
     '$nested',
     '$and',
-    '$or'
+    '$or',
+    ...Object.keys(operators).filter((name) => operators[name].kind === 'special')
   ]
 
   const enhancedQuery = { ...query }
@@ -37,8 +72,70 @@ export function find(service: ElasticAdapterInterface, params: ElasticsearchServ
     }
   })
 
+  // Rank full-text and vector results by relevance unless they are sorted, fused rankings are not sorted at all
+  const ranked = hasFullTextQuery(enhancedQuery) || filters.$knn !== undefined
+  if (filters.$sort === undefined && ranked && !usesRankFusion(filters.$knn)) {
+    filters.$sort = [{ _score: 'desc' }]
+  }
+
+  // PERFORMANCE: Validate query complexity budget
+  validateQueryComplexity(enhancedQuery, service.security.maxQueryComplexity, getOperatorWeights(operators))
+
   // Parse query with security-enforced max depth
-  let esQuery = parseQuery(enhancedQuery, service.id, service.security.maxQueryDepth)
+  const parsed = parseQuery(enhancedQuery, service.id, service.security.maxQueryDepth, 0, operators)
+
+  // The mapping only describes the service index
+  const mapped = fields && (filters.$index === undefined || filters.$index === service.index) ? fields : null
+  const mappingOptions = typeof service.queryMapping === 'object' ? service.queryMapping : {}
+  const esQuery = parsed && mapped ? translateQuery(parsed, mapped, mappingOptions) : parsed
+
+  // The vector field of $knn is not part of the bool query
+  const knnField = (filters.$knn as KnnQuery | undefined)?.field
+  if (mapped && typeof knnField === 'string') {
+    validateMappedFields([knnField], mapped, mappingOptions)
+  }
+
+  return { filters, paginate, esQuery }
+}
+
+/**
+ * Replaces a `$semantic` query with the `$knn` search of its embedding
+ */
+async function resolveSemanticQuery(
+  service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams
+): Promise<ElasticsearchServiceParams> {
+  if (params.query?.$semantic === undefined) {
+    return params
+  }
+
+  const { $semantic, ...query } = params.query
+
+  if (query.$knn !== undefined) {
+    throw new errors.BadRequest('$semantic and $knn can not be combined')
+  }
+
+  return { ...params, query: Object.assign({}, query, { $knn: await getSemanticKnn($semantic, service.embeddings) }) }
+}
+
+export async function find(service: ElasticAdapterInterface, params: ElasticsearchServiceParams) {
+  const { filters, paginate, esQuery } = prepareFind(
+    service,
+    await resolveSemanticQuery(service, params),
+    await loadMapping(service)
+  )
+
+  if (params.cursor || filters.$after !== undefined) {
+    if (filters.$knn !== undefined) {
+      throw new errors.BadRequest('$knn can not be used with cursor pagination')
+    }
+
+    if (getAggregations(filters, params)) {
+      throw new errors.BadRequest('Aggregations can not be used with cursor pagination')
+    }
+
+    return findCursor(service, filters, paginate, esQuery)
+  }
 
   // When paginate is false and no explicit limit, use Elasticsearch's default max_result_window (10000)
   // Without this, Elasticsearch defaults to only 10 results
@@ -59,12 +156,44 @@ export function find(service: ElasticAdapterInterface, params: ElasticsearchServ
     routing: filters.$routing as string | undefined,
     query: esQuery ? { bool: esQuery } : undefined,
     _source: filters.$select as string[] | boolean | undefined,
+    ...(service.optimisticConcurrency && { seq_no_primary_term: true }),
     ...(service.esParams as Record<string, unknown>)
   }
 
+  const knn = getKnnRequest(filters.$knn, esQuery, {
+    vectorFields: service.vectorFields || getVectorFields(service.mappings),
+    esVersion: service.esVersion
+  })
+  if (knn) {
+    if (usesRankFusion(filters.$knn) && findParams.sort !== undefined) {
+      throw new errors.BadRequest('$sort can not be used with reciprocal rank fusion')
+    }
+
+    // The query is a filter of the kNN search, or part of the request built for hybrid ranking
+    delete findParams.query
+    Object.assign(findParams, knn)
+  }
+
   // The `refresh` param is not recognised for search in Es.
   delete (findParams as Record<string, unknown>).refresh
 
+  // SECURITY: Aggregations are user input, enforce count and size limits
+  const aggs = getAggregations(filters, params)
+  if (aggs) {
+    // Aggregations are returned next to the data of a page, a plain array has no place for them
+    if (!(paginate && paginate.default)) {
+      throw new errors.BadRequest('Aggregations need paginated results')
+    }
+
+    validateAggregations(aggs, service.security.maxAggregations, service.security.maxAggregationSize)
+    findParams.aggs = aggs as SearchRequest['aggs']
+  }
+
+  const highlight = getHighlight(filters.$highlight)
+  if (highlight) {
+    findParams.highlight = highlight as never
+  }
+
   return service.Model.search(findParams).then((result) =>
     mapFind(
       result as never,
@@ -72,7 +201,9 @@ export function find(service: ElasticAdapterInterface, params: ElasticsearchServ
       service.meta || '',
       service.join,
       filters,
-      !!(paginate && paginate.default)
+      !!(paginate && paginate.default),
+      aggs,
+      service.highlight
     )
   )
 }
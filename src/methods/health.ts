@@ -0,0 +1,122 @@
+'use strict'
+
+import { ElasticAdapterInterface, HealthStatus } from '../types'
+import { getDistribution, getResponseBody, getSupportedVersions } from '../utils/compat'
+import { isSupportedVersion } from '../utils/core'
+import { DEFAULT_RETRY_CONFIG } from '../utils/retry'
+
+type Health = 'green' | 'yellow' | 'red'
+
+const HEALTH_ORDER: Health[] = ['green', 'yellow', 'red']
+
+/**
+ * Gets the message of a failed request for the report
+ */
+function getMessage(name: string, result: PromiseSettledResult<unknown>): string[] {
+  return result.status === 'rejected' ? [`${name}: ${(result.reason as Error)?.message || result.reason}`] : []
+}
+
+/**
+ * Gets the worst of index healths
+ */
+function getWorstHealth(healths: Health[]): Health | null {
+  return healths.reduce(
+    (worst: Health | null, health) =>
+      worst === null || HEALTH_ORDER.indexOf(health) > HEALTH_ORDER.indexOf(worst) ? health : worst,
+    null
+  )
+}
+
+/**
+ * Gets the existence, health and document count of the service index, or of the indices behind its alias
+ */
+async function getIndexHealth(service: ElasticAdapterInterface): Promise<HealthStatus['index']> {
+  const { Model: client, index } = service
+  const exists = getResponseBody<boolean>(await client.indices.exists({ index }))
+
+  if (!exists) {
+    return { name: index, exists: false, alias: false, indices: [], health: null, docsCount: null }
+  }
+
+  const records = getResponseBody<Array<Record<string, string>>>(
+    await client.cat.indices({ index, format: 'json' } as never)
+  )
+  const indices = records.map((record) => record.index).sort()
+
+  return {
+    name: index,
+    exists: true,
+    alias: !indices.includes(index),
+    indices,
+    health: getWorstHealth(records.map((record) => record.health as Health)),
+    docsCount: records.reduce((count, record) => count + Number(record['docs.count'] || 0), 0)
+  }
+}
+
+/**
+ * Reports the health of the cluster and the service index, for readiness probes.
+ * The requests are sent by the client without retries or the circuit breaker, so a probe answers
+ * quickly and does not change the circuit. Failed requests are reported in `errors`, health() does not throw.
+ * @param service - The Elasticsearch service instance
+ * @returns Health report with a stable shape
+ */
+export async function health(service: ElasticAdapterInterface): Promise<HealthStatus> {
+  const client = service.Model
+  const [cluster, info, index] = await Promise.allSettled([
+    client.cluster.health({}).then((response) => getResponseBody(response)),
+    client
+      .info()
+      .then((response) => getResponseBody<{ version?: { number?: string; distribution?: string } }>(response)),
+    getIndexHealth(service)
+  ])
+
+  const clusterHealth = cluster.status === 'fulfilled' ? cluster.value : null
+  const indexHealth =
+    index.status === 'fulfilled'
+      ? index.value
+      : { name: service.index, exists: false, alias: false, indices: [], health: null, docsCount: null }
+  const detected = (info.status === 'fulfilled' && info.value.version?.number) || null
+  const distribution = info.status === 'fulfilled' ? getDistribution(info.value.version) : null
+  const supportedVersions = getSupportedVersions(distribution || service.distribution)
+  const circuitBreaker = service.circuitBreaker?.getStatus() || null
+  const retry = service.retry === false ? undefined : service.retry
+
+  const clusterStatus = (clusterHealth?.status as Health | undefined) || null
+  const ready =
+    clusterStatus !== null &&
+    clusterStatus !== 'red' &&
+    indexHealth.exists &&
+    indexHealth.health !== 'red' &&
+    circuitBreaker?.state !== 'open'
+  const supported = detected !== null && isSupportedVersion(detected, supportedVersions)
+  const degraded =
+    clusterStatus === 'yellow' || indexHealth.health === 'yellow' || !supported || circuitBreaker?.state === 'half-open'
+
+  return {
+    status: !ready ? 'unavailable' : degraded ? 'degraded' : 'ok',
+    ready,
+    checkedAt: new Date().toISOString(),
+    cluster: {
+      name: (clusterHealth?.cluster_name as string | undefined) || null,
+      status: clusterStatus
+    },
+    index: indexHealth,
+    version: {
+      distribution,
+      detected,
+      // Not service.esVersion, which is the Elasticsearch version OpenSearch is addressed as
+      configured: service.configuredVersion || null,
+      supported,
+      supportedVersions
+    },
+    circuitBreaker,
+    retry: {
+      enabled: service.retry !== false,
+      maxRetries: retry?.maxRetries ?? DEFAULT_RETRY_CONFIG.maxRetries,
+      initialDelay: retry?.initialDelay ?? DEFAULT_RETRY_CONFIG.initialDelay,
+      maxDelay: retry?.maxDelay ?? DEFAULT_RETRY_CONFIG.maxDelay,
+      backoffMultiplier: retry?.backoffMultiplier ?? DEFAULT_RETRY_CONFIG.backoffMultiplier
+    },
+    errors: [...getMessage('cluster.health', cluster), ...getMessage('info', info), ...getMessage('indices', index)]
+  }
+}
@@ -7,5 +7,13 @@ export { patch } from './patch'
 export { patchBulk } from './patch-bulk'
 export { remove } from './remove'
 export { removeBulk } from './remove-bulk'
+export { patchByQuery, removeByQuery } from './by-query'
 export { update } from './update'
 export { raw } from './raw'
+export { iterate } from './iterate'
+export { getTask, cancelTask, waitForTask } from './tasks'
+export { setupIndex } from './setup-index'
+export { reindexTo, rollbackReindex } from './reindex'
+export { loadMapping } from './load-mapping'
+export { suggest } from './suggest'
+export { health } from './health'
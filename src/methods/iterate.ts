@@ -0,0 +1,73 @@
+'use strict'
+
+import { errors } from '@feathersjs/errors'
+import { getAggregations, mapGet } from '../utils/index'
+import { getCursorSort } from '../utils/cursor'
+import { ElasticsearchServiceParams, ElasticAdapterInterface, SearchRequest } from '../types'
+import { prepareFind } from './find'
+import { loadMapping } from './load-mapping'
+import { openPit, closePit, searchAfter } from './find-cursor'
+
+const DEFAULT_BATCH_SIZE = 1000
+
+/**
+ * Iterates over every document matching the query using a point-in-time and `search_after`.
+ * Documents are fetched in batches of `params.batchSize` and yielded one by one,
+ * so memory usage does not depend on the number of matches.
+ * The point-in-time is closed when iteration finishes, fails or is stopped early.
+ * @param service - The Elasticsearch service instance
+ * @param params - Service parameters (`$limit` is ignored, use `batchSize`)
+ * @returns Async iterator of mapped documents
+ */
+export async function* iterate(
+  service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams = {}
+): AsyncGenerator<Record<string, unknown>> {
+  const { filters, esQuery } = prepareFind(service, params, await loadMapping(service), 'when iterating')
+
+  if (filters.$skip) {
+    throw new errors.BadRequest('$skip can not be used when iterating')
+  }
+
+  if (getAggregations(filters, params)) {
+    throw new errors.BadRequest('Aggregations can not be used when iterating')
+  }
+
+  const batchSize = params.batchSize ?? DEFAULT_BATCH_SIZE
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new errors.BadRequest('batchSize must be a positive integer')
+  }
+
+  const index = (filters.$index as string) ?? service.index
+  const request: SearchRequest = {
+    size: batchSize,
+    sort: getCursorSort(filters.$sort) as SearchRequest['sort'],
+    query: esQuery ? { bool: esQuery } : undefined,
+    _source: filters.$select as string[] | boolean | undefined,
+    track_total_hits: false
+  }
+
+  let pit = await openPit(service, index, filters.$routing as string | undefined)
+  let after: unknown[] | undefined
+
+  try {
+    while (true) {
+      const result = await searchAfter(service, pit, request, after)
+      const hits = result.hits.hits
+
+      pit = result.pit_id || pit
+
+      for (const hit of hits) {
+        yield mapGet(hit, service.id, service.meta || '', service.join)
+      }
+
+      if (hits.length < batchSize || !hits[hits.length - 1].sort) {
+        return
+      }
+
+      after = hits[hits.length - 1].sort
+    }
+  } finally {
+    await closePit(service, pit)
+  }
+}
@@ -0,0 +1,52 @@
+'use strict'
+
+import { DEFAULT_ES_VERSION } from '../config/versions'
+import { getMappingProperties } from '../utils/mappings'
+import { getMappedFields } from '../utils/query-mapping'
+import { ElasticAdapterInterface, ElasticsearchError, MappedFields } from '../types'
+
+const DEFAULT_MAPPING_MAX_AGE = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Loads the mapping of the service index for query translation, if the `queryMapping` option is set.
+ * The mapping is cached on the service for `queryMapping.maxAge`, concurrent calls share one request.
+ * @param service - The Elasticsearch service instance
+ * @returns Mapped fields, or null if query translation is disabled or the index does not exist yet
+ */
+export function loadMapping(service: ElasticAdapterInterface): Promise<MappedFields | null> {
+  if (!service.queryMapping) {
+    return Promise.resolve(null)
+  }
+
+  const { maxAge = DEFAULT_MAPPING_MAX_AGE } = typeof service.queryMapping === 'object' ? service.queryMapping : {}
+  const cache = service.mappingCache
+
+  if (cache && Date.now() - cache.loadedAt < maxAge) {
+    return cache.fields
+  }
+
+  const esVersion = service.esVersion || DEFAULT_ES_VERSION
+  const fields = service.Model.indices
+    .getMapping({ index: service.index })
+    .then((response) =>
+      // The index may be an alias of several indices, the first mapping of a field wins
+      Object.values(response as unknown as Record<string, Record<string, unknown>>).reduce(
+        (result: MappedFields, entry) => ({ ...getMappedFields(getMappingProperties(entry, esVersion)), ...result }),
+        {}
+      )
+    )
+    .catch((error: ElasticsearchError) => {
+      // Load again with the next query
+      service.mappingCache = undefined
+
+      if (error.meta?.statusCode === 404) {
+        return null
+      }
+
+      throw error
+    })
+
+  service.mappingCache = { fields, loadedAt: Date.now() }
+
+  return fields
+}
@@ -1,20 +1,65 @@
 'use strict'
 
-import { mapBulk, removeProps, getDocDescriptor } from '../utils/index'
+import {
+  mapBulk,
+  removeProps,
+  getDocDescriptor,
+  toBulkResult,
+  changesSourceFields,
+  embedTexts,
+  getEmbeddingText,
+  getSourceRoots,
+  hasAllSourceFields
+} from '../utils/index'
 import { mergeESParamsWithRefresh } from '../utils/params'
 import { validateQueryComplexity } from '../utils/security'
-import { ElasticsearchServiceParams, ElasticAdapterInterface } from '../types'
+import { getOperatorWeights } from '../utils/operators'
+import { getConcurrencyParams } from '../utils/concurrency'
+import { hasUpdateOperators, getUpdateBody, getRetryOnConflict } from '../utils/update-operators'
+import { ElasticsearchServiceParams, ElasticAdapterInterface, ESBulkResponseItem } from '../types'
 import { errors } from '@feathersjs/errors'
+import { patchByQuery } from './by-query'
 
 /**
  * Prepares find parameters for bulk patch operation
  */
-function prepareFindParams(_service: ElasticAdapterInterface, params: ElasticsearchServiceParams) {
+function prepareFindParams(
+  _service: ElasticAdapterInterface,
+  params: ElasticsearchServiceParams,
+  select: string[] | false = false
+) {
   return Object.assign(removeProps(params as Record<string, unknown>, 'query'), {
-    query: Object.assign({}, params.query, { $select: false })
+    query: Object.assign({}, params.query, { $select: select })
   })
 }
 
+/**
+ * Gets the embeddings of the found documents if the patch changes their text.
+ * A patch with all source fields has the same text, and so the same vector, for every document.
+ */
+async function getPatchEmbeddings(
+  service: ElasticAdapterInterface,
+  found: Array<Record<string, unknown>>,
+  doc: Record<string, unknown>
+): Promise<(number[] | null)[] | undefined> {
+  const embeddings = service.embeddings
+
+  if (!embeddings || !changesSourceFields(doc, embeddings.sourceFields)) {
+    return undefined
+  }
+
+  if (hasAllSourceFields(doc, embeddings.sourceFields)) {
+    const [vector] = await embedTexts(embeddings, [getEmbeddingText(doc, embeddings.sourceFields)])
+
+    return found.map(() => vector)
+  }
+
+  return embedTexts(
+    embeddings,
+    found.map((item) => getEmbeddingText({ ...item, ...doc }, embeddings.sourceFields))
+  )
+}
+
 /**
  * Creates bulk update operations from found documents
  */
@@ -22,17 +67,28 @@ function createBulkOperations(
   service: ElasticAdapterInterface,
   found: Array<Record<string, unknown>>,
   data: Record<string, unknown>,
-  index: string | undefined
+  index: string | undefined,
+  params: ElasticsearchServiceParams,
+  vectors?: (number[] | null)[]
 ): Array<Record<string, unknown>> {
-  return found.reduce((result: Array<Record<string, unknown>>, item: Record<string, unknown>) => {
+  const { doc } = getDocDescriptor(service, data)
+  const getBody = (patch: Record<string, unknown>) =>
+    hasUpdateOperators(patch) ? getUpdateBody(patch) : { doc: patch, doc_as_upsert: false }
+  // Compile operators once, the script is the same for every document unless it sets its own vector
+  const body = getBody(doc)
+
+  return found.reduce((result: Array<Record<string, unknown>>, item: Record<string, unknown>, position) => {
     const metaData = (item as Record<string, Record<string, unknown>>)[service.meta as string]
     const { _id, _parent: parent, _routing: routing } = metaData
-    const { doc } = getDocDescriptor(service, data)
+    // Only update documents which have not changed since they were found
+    const concurrencyParams = service.optimisticConcurrency ? getConcurrencyParams(service, item) : {}
 
     const updateOp: Record<string, Record<string, unknown>> = {
       update: {
         _index: index as string,
-        _id
+        _id,
+        ...getRetryOnConflict(doc, params, concurrencyParams),
+        ...concurrencyParams
       }
     }
 
@@ -41,7 +97,7 @@ function createBulkOperations(
     }
 
     result.push(updateOp)
-    result.push({ doc, doc_as_upsert: false })
+    result.push(vectors ? getBody({ ...doc, [service.embeddings!.field]: vectors[position] }) : body)
 
     return result
   }, [])
@@ -150,14 +206,33 @@ export async function patchBulk(
   data: Record<string, unknown>,
   params: ElasticsearchServiceParams
 ): Promise<unknown> {
+  const { doc } = getDocDescriptor(service, data)
+  const embeddings = service.embeddings
+  const embed = !!embeddings && changesSourceFields(doc, embeddings.sourceFields)
+
+  // Server-side mode, no documents are fetched or returned
+  if (params.byQuery) {
+    if (embed) {
+      throw new errors.BadRequest('Embedded fields can not be patched by query')
+    }
+
+    return patchByQuery(service, data, params)
+  }
+
   const { filters } = service.filterQuery(params)
   const index = (filters.$index as string) || service.index
 
   // PERFORMANCE: Validate query complexity budget
-  validateQueryComplexity(params.query || {}, service.security.maxQueryComplexity)
+  validateQueryComplexity(
+    params.query || {},
+    service.security.maxQueryComplexity,
+    getOperatorWeights(service.customOperators)
+  )
 
   // Step 1: Find documents to patch (without pagination)
-  const findParams = prepareFindParams(service, params)
+  // The text of the documents is needed if the patch only changes some of their source fields
+  const select = embed && !hasAllSourceFields(doc, embeddings!.sourceFields) && getSourceRoots(embeddings!.sourceFields)
+  const findParams = prepareFindParams(service, params, select || false)
   const results = await service._find({ ...findParams, paginate: false })
 
   // Handle paginated results
@@ -166,7 +241,7 @@ export async function patchBulk(
     : ((results as Record<string, unknown>).data as Array<Record<string, unknown>>)
 
   if (!found.length) {
-    return found
+    return params.bulkResult ? toBulkResult(found, [], params.bulkResult) : found
   }
 
   // SECURITY: Enforce maximum bulk operation limit
@@ -178,17 +253,40 @@ export async function patchBulk(
   }
 
   // Step 2: Create bulk operations
-  const operations = createBulkOperations(service, found, data, index)
+  const operations = createBulkOperations(
+    service,
+    found,
+    data,
+    index,
+    params,
+    await getPatchEmbeddings(service, found, doc)
+  )
 
   // Step 3: Prepare and execute bulk update
   const bulkUpdateParams = prepareBulkUpdateParams(service, operations, index, params)
 
-  const bulkResult = (await service.Model.bulk(bulkUpdateParams as never)) as unknown as Record<
-    string,
-    unknown
-  >
+  const bulkResult = (await service.Model.bulk(bulkUpdateParams as never)) as unknown as Record<string, unknown>
 
-  // Step 4: Get updated document IDs
+  // Step 4: Map results, one per bulk item
+  const patched = await mapPatched(service, bulkResult, index, filters, params)
+
+  // Report failed items separately if requested
+  return params.bulkResult
+    ? toBulkResult(patched, bulkResult.items as ESBulkResponseItem[], params.bulkResult)
+    : patched
+}
+
+/**
+ * Maps the bulk update response to the patched documents, or the failed items
+ */
+async function mapPatched(
+  service: ElasticAdapterInterface,
+  bulkResult: Record<string, unknown>,
+  index: string,
+  filters: Record<string, unknown>,
+  params: ElasticsearchServiceParams
+): Promise<unknown[]> {
+  // Get updated document IDs
   const updatedIds = getUpdatedIds(bulkResult)
 
   if (updatedIds.length === 0) {
@@ -200,12 +298,8 @@ export async function patchBulk(
     return mapBulk(bulkResult.items as Array<Record<string, unknown>>, service.id, service.meta, service.join)
   }
 
-  // Step 6: Fetch updated documents with selected fields
-  const mgetResult = (await fetchUpdatedDocuments(service, updatedIds, index, filters)) as Record<
-    string,
-    unknown
-  >
+  // Fetch updated documents with selected fields
+  const mgetResult = (await fetchUpdatedDocuments(service, updatedIds, index, filters)) as Record<string, unknown>
 
-  // Step 7: Map and return results
   return mapFetchedDocuments(mgetResult, bulkResult, service)
 }
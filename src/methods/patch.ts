@@ -1,10 +1,46 @@
 'use strict'
 
-import { getDocDescriptor, getQueryLength, mapPatch } from '../utils/index'
+import {
+  addEmbeddings,
+  changesSourceFields,
+  getDocDescriptor,
+  getQueryLength,
+  getSourceRoots,
+  hasAllSourceFields,
+  mapPatch
+} from '../utils/index'
 import { mergeESParamsWithRefresh } from '../utils/params'
+import { getConcurrencyParams, throwConflictWithVersion } from '../utils/concurrency'
+import { getUpdateBody, getRetryOnConflict } from '../utils/update-operators'
 import { ElasticsearchServiceParams, ElasticAdapterInterface } from '../types'
 
-export function patch(
+/**
+ * Adds the embedding of the patched text, the other source fields are read from the stored document
+ */
+async function embedPatch(
+  service: ElasticAdapterInterface,
+  id: string | number,
+  doc: Record<string, unknown>,
+  params: ElasticsearchServiceParams
+): Promise<Record<string, unknown>> {
+  const embeddings = service.embeddings
+
+  if (!embeddings || !changesSourceFields(doc, embeddings.sourceFields)) {
+    return doc
+  }
+
+  const current = hasAllSourceFields(doc, embeddings.sourceFields)
+    ? {}
+    : ((await service._get(id, {
+        ...params,
+        query: Object.assign({}, params.query, { $select: getSourceRoots(embeddings.sourceFields) })
+      })) as Record<string, unknown>)
+  const [embedded] = await addEmbeddings(embeddings, [doc], [{ ...current, ...doc }])
+
+  return embedded
+}
+
+export async function patch(
   service: ElasticAdapterInterface,
   id: string | number,
   data: Record<string, unknown>,
@@ -12,15 +48,19 @@ export function patch(
 ) {
   const { filters, query } = service.filterQuery(params)
   const { routing } = getDocDescriptor(service, query)
-  const { doc } = getDocDescriptor(service, data)
+  const doc = await embedPatch(service, id, getDocDescriptor(service, data).doc, params)
+  const concurrencyParams = getConcurrencyParams(service, data, params)
+  const index = (filters.$index as string) || service.index
 
   // PERFORMANCE: Merge esParams with per-operation refresh override
   const updateParams: Record<string, unknown> = {
-    index: filters.$index || service.index,
+    index,
     id: String(id),
-    body: { doc },
+    body: getUpdateBody(doc),
     _source: filters.$select || true,
-    ...mergeESParamsWithRefresh(service.esParams, params)
+    ...mergeESParamsWithRefresh(service.esParams, params),
+    ...getRetryOnConflict(doc, params, concurrencyParams),
+    ...concurrencyParams
   }
 
   // Add routing if specified
@@ -32,6 +72,12 @@ export function patch(
   const queryPromise = getQueryLength(service, query) >= 1 ? service._get(id, params) : Promise.resolve()
 
   return queryPromise
-    .then(() => service.Model.update(updateParams as never))
+    .then(() =>
+      service.Model.update(updateParams as never).catch((error) =>
+        concurrencyParams.if_seq_no !== undefined
+          ? throwConflictWithVersion(service, error, id, index, routing)
+          : Promise.reject(error)
+      )
+    )
     .then((result: unknown) => mapPatch(result as never, service.id, service.meta, service.join))
 }
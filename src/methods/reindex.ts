@@ -0,0 +1,246 @@
+'use strict'
+
+import { errors } from '@feathersjs/errors'
+import { DEFAULT_ES_VERSION } from '../config/versions'
+import { getIndexBody } from '../utils/mappings'
+import { ElasticAdapterInterface, ElasticsearchError, ReindexOptions, ReindexResult, TaskProgress } from '../types'
+import { waitForTask } from './tasks'
+import { closePit, openPit, searchAfter } from './find-cursor'
+
+const RECONCILE_BATCH_SIZE = 1000
+
+/**
+ * Gets the physical index behind the service index alias
+ * @throws BadRequest if the service index is not an alias of a single write index
+ */
+async function getAliasIndex(service: ElasticAdapterInterface): Promise<string> {
+  const response = (await service.Model.indices.getAlias({ name: service.index }).catch((error: ElasticsearchError) => {
+    if (error.meta?.statusCode === 404) {
+      throw new errors.BadRequest(`Index ${service.index} must be an alias to be reindexed`)
+    }
+
+    throw error
+  })) as Record<string, { aliases: Record<string, { is_write_index?: boolean }> }>
+
+  const indices = Object.keys(response)
+  const writeIndex =
+    indices.length === 1 ? indices[0] : indices.find((index) => response[index].aliases[service.index]?.is_write_index)
+
+  if (!writeIndex) {
+    throw new errors.BadRequest(`Alias ${service.index} must point to a single write index to be reindexed`)
+  }
+
+  return writeIndex
+}
+
+/**
+ * Gets the name of the next version of a physical index, e.g. `people-v3` after `people-v2`
+ */
+function getNextIndexName(alias: string, current: string): string {
+  const match = /-v(\d+)$/.exec(current)
+
+  return `${alias}-v${match ? Number(match[1]) + 1 : 2}`
+}
+
+function setWriteBlock(service: ElasticAdapterInterface, index: string, blocked: boolean) {
+  return service.Model.indices.putSettings({ index, settings: { 'index.blocks.write': blocked } })
+}
+
+/**
+ * Starts copying the documents of the alias into the new index, as a task.
+ * External versioning keeps the source versions, so a second run only copies documents
+ * which have changed since the first one.
+ * @returns The task id
+ */
+async function startCopy(service: ElasticAdapterInterface, to: string, options: ReindexOptions): Promise<string> {
+  const { task } = (await service.Model.reindex({
+    source: { index: service.index },
+    dest: { index: to, version_type: 'external' },
+    conflicts: 'proceed',
+    refresh: true,
+    wait_for_completion: false,
+    ...(options.slices !== undefined && { slices: options.slices })
+  } as never)) as unknown as { task: string }
+
+  return String(task)
+}
+
+/**
+ * Deletes the documents of the new index which were deleted from the old one during the copy.
+ * The copies only create and update documents, so with writes to the old index blocked, the new index
+ * has the same documents plus the deleted ones. They are only looked for if the counts differ.
+ * @returns The number of deleted documents
+ */
+async function removeDeleted(service: ElasticAdapterInterface, from: string, to: string): Promise<number> {
+  const [source, target] = await Promise.all(
+    [from, to].map((index) => service.Model.count({ index }).then(({ count }) => count))
+  )
+  let removed = 0
+
+  if (target <= source) {
+    return removed
+  }
+
+  let pit = await openPit(service, to)
+  let after: unknown[] | undefined
+
+  try {
+    while (removed < target - source) {
+      const result = await searchAfter(
+        service,
+        pit,
+        { size: RECONCILE_BATCH_SIZE, sort: ['_doc'], _source: false, track_total_hits: false },
+        after
+      )
+      const hits = result.hits.hits as Array<{ _id: string; _routing?: string; sort?: unknown[] }>
+
+      pit = result.pit_id || pit
+
+      if (!hits.length) {
+        break
+      }
+
+      const { docs } = (await service.Model.mget({
+        index: from,
+        docs: hits.map(({ _id, _routing }) => ({ _id, ...(_routing !== undefined && { routing: _routing }) })),
+        _source: false
+      } as never)) as unknown as { docs: Array<{ found?: boolean }> }
+      const deleted = hits.filter((_hit, i) => !docs[i].found)
+
+      if (deleted.length) {
+        await service.Model.bulk({
+          operations: deleted.map(({ _id, _routing }) => ({
+            delete: { _index: to, _id, ...(_routing !== undefined && { routing: _routing }) }
+          })),
+          refresh: true
+        } as never)
+        removed += deleted.length
+      }
+
+      after = hits[hits.length - 1].sort
+    }
+  } finally {
+    await closePit(service, pit)
+  }
+
+  return removed
+}
+
+/**
+ * Moves the service index alias to a new physical index with new settings and mappings, without downtime
+ * for reads. The documents are copied while the old index stays writable, then writes are blocked for a
+ * second pass which copies the documents changed in the meantime and removes the deleted ones, and the
+ * aliases are swapped atomically. If any step fails, a running copy is cancelled, the new index is deleted
+ * and the old one is unblocked.
+ * @param service - The Elasticsearch service instance
+ * @param settings - Settings of the new index (default: the `settings` option)
+ * @param mappings - Mappings of the new index (default: the `mappings` option)
+ * @param options - Name of the new index, slices, progress callback and whether to delete the old index
+ * @returns Indices and copied documents, can be passed to `rollbackReindex`
+ */
+export async function reindexTo(
+  service: ElasticAdapterInterface,
+  settings: Record<string, unknown> | undefined = service.settings,
+  mappings: Record<string, unknown> | undefined = service.mappings,
+  options: ReindexOptions = {}
+): Promise<ReindexResult> {
+  const alias = service.index
+  const from = await getAliasIndex(service)
+  const to = options.index || getNextIndexName(alias, from)
+
+  await service.Model.indices.create({
+    index: to,
+    ...getIndexBody({ settings, mappings }, service.esVersion || DEFAULT_ES_VERSION)
+  } as never)
+
+  let blocked = false
+  let task: string | undefined
+  let copied: TaskProgress
+  let caughtUp: TaskProgress
+  let removed: number
+
+  const copyDocuments = async () => {
+    task = await startCopy(service, to, options)
+
+    // The copy task writes to the new index, which is not an index of the service yet
+    const { progress } = await waitForTask(service, task, options, [to])
+
+    task = undefined
+    return progress
+  }
+
+  try {
+    copied = await copyDocuments()
+
+    await setWriteBlock(service, from, true)
+    blocked = true
+    // Make the last writes visible to the second pass
+    await service.Model.indices.refresh({ index: from })
+
+    caughtUp = await copyDocuments()
+    removed = await removeDeleted(service, from, to)
+
+    await service.Model.indices.updateAliases({
+      actions: [{ remove: { index: from, alias } }, { add: { index: to, alias, is_write_index: true } }]
+    })
+    // Queries are translated with the mapping of the new index
+    service.mappingCache = undefined
+  } catch (error) {
+    // Roll back, the alias still points to the old index.
+    // A copy which timed out keeps running and would create the deleted index again.
+    if (task) {
+      await service.Model.tasks.cancel({ task_id: task }).catch(() => undefined)
+    }
+
+    if (blocked) {
+      await setWriteBlock(service, from, false).catch(() => undefined)
+    }
+
+    await service.Model.indices.delete({ index: to }).catch(() => undefined)
+
+    throw error
+  }
+
+  if (options.deleteOld) {
+    await service.Model.indices.delete({ index: from })
+  } else {
+    // Keep the old index usable for a rollback
+    await setWriteBlock(service, from, false)
+  }
+
+  return { alias, from, to, oldDeleted: !!options.deleteOld, copied, caughtUp, removed }
+}
+
+/**
+ * Moves the service index alias back to the previous physical index of a reindex.
+ * Documents written to the new index since the swap are not copied back.
+ * @param service - The Elasticsearch service instance
+ * @param result - Result of `reindexTo`
+ * @param options - Whether to delete the new index
+ * @throws BadRequest if the alias does not point to the new index or the old index was deleted
+ */
+export async function rollbackReindex(
+  service: ElasticAdapterInterface,
+  result: Pick<ReindexResult, 'from' | 'to'>,
+  options: { deleteNew?: boolean } = {}
+): Promise<void> {
+  const { from, to } = result
+  const alias = service.index
+
+  if ((await getAliasIndex(service)) !== to) {
+    throw new errors.BadRequest(`Alias ${alias} does not point to ${to}`)
+  }
+
+  if (!(await service.Model.indices.exists({ index: from }))) {
+    throw new errors.BadRequest(`Index ${from} does not exist anymore`)
+  }
+
+  await service.Model.indices.updateAliases({
+    actions: [{ remove: { index: to, alias } }, { add: { index: from, alias, is_write_index: true } }]
+  })
+  service.mappingCache = undefined
+
+  if (options.deleteNew) {
+    await service.Model.indices.delete({ index: to })
+  }
+}
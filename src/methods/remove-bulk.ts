@@ -1,13 +1,25 @@
 'use strict'
 
 import { mergeESParamsWithRefresh } from '../utils/params'
+import { toBulkResult } from '../utils/bulk'
 import { validateQueryComplexity } from '../utils/security'
-import { ElasticsearchServiceParams, ElasticAdapterInterface } from '../types'
+import { getOperatorWeights } from '../utils/operators'
+import { ElasticsearchServiceParams, ElasticAdapterInterface, ESBulkResponseItem } from '../types'
 import { errors } from '@feathersjs/errors'
+import { removeByQuery } from './by-query'
 
 export function removeBulk(service: ElasticAdapterInterface, params: ElasticsearchServiceParams) {
+  // Server-side mode, no documents are fetched or returned
+  if (params.byQuery) {
+    return removeByQuery(service, params)
+  }
+
   // PERFORMANCE: Validate query complexity budget
-  validateQueryComplexity(params.query || {}, service.security.maxQueryComplexity)
+  validateQueryComplexity(
+    params.query || {},
+    service.security.maxQueryComplexity,
+    getOperatorWeights(service.customOperators)
+  )
 
   const { find } = service.core as Record<
     string,
@@ -21,7 +33,7 @@ export function removeBulk(service: ElasticAdapterInterface, params: Elasticsear
       : ((results as Record<string, unknown>).data as Array<Record<string, unknown>>)
 
     if (!found.length) {
-      return found
+      return params.bulkResult ? toBulkResult(found, [], params.bulkResult) : found
     }
 
     // SECURITY: Enforce maximum bulk operation limit
@@ -48,6 +60,15 @@ export function removeBulk(service: ElasticAdapterInterface, params: Elasticsear
     return service.Model.bulk(bulkRemoveParams).then((results: unknown) => {
       const resultItems = (results as Record<string, unknown>).items as Array<Record<string, unknown>>
 
+      // Report failed items separately if requested
+      if (params.bulkResult) {
+        const removed = resultItems.map((item: Record<string, unknown>, index: number) =>
+          params.lean ? { [service.id]: (item.delete as Record<string, unknown>)._id } : found[index]
+        )
+
+        return toBulkResult(removed, resultItems as ESBulkResponseItem[], params.bulkResult)
+      }
+
       // PERFORMANCE: Lean mode - return minimal info without full documents
       if (params.lean) {
         return resultItems
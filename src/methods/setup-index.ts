@@ -0,0 +1,58 @@
+'use strict'
+
+import { DEFAULT_ES_VERSION } from '../config/versions'
+import { diffMappings, getIndexBody, getMappingProperties } from '../utils/mappings'
+import { ElasticAdapterInterface, ElasticsearchError, IndexSetupResult } from '../types'
+
+/**
+ * Creates the service index from the `settings`, `mappings` and `aliases` options if it does not exist,
+ * otherwise compares the declared mappings with the live ones. Safe to run on every start.
+ * @param service - The Elasticsearch service instance
+ * @returns Whether the index was created and the mapping differences of an existing index
+ */
+export async function setupIndex(service: ElasticAdapterInterface): Promise<IndexSetupResult> {
+  if (!service.settings && !service.mappings && !service.aliases && !service.aliasIndex) {
+    return { created: false }
+  }
+
+  const esVersion = service.esVersion || DEFAULT_ES_VERSION
+  const exists = await service.Model.indices.exists({ index: service.index })
+
+  if (!exists) {
+    // An aliased index gets a versioned physical index, so it can be reindexed with reindexTo()
+    const index = service.aliasIndex ? `${service.index}-v1` : service.index
+    const aliases = service.aliasIndex
+      ? { ...service.aliases, [service.index]: { is_write_index: true } }
+      : service.aliases
+
+    try {
+      await service.Model.indices.create({
+        index,
+        ...getIndexBody({ settings: service.settings, mappings: service.mappings, aliases }, esVersion)
+      } as never)
+
+      return { created: true }
+    } catch (error) {
+      // Another instance created the index in the meantime
+      if ((error as ElasticsearchError).meta?.body?.error?.type !== 'resource_already_exists_exception') {
+        throw error
+      }
+    }
+  }
+
+  if (!service.mappings) {
+    return { created: false }
+  }
+
+  // The index may be an alias, the response is keyed by the physical index
+  const response = (await service.Model.indices.getMapping({ index: service.index })) as unknown as Record<
+    string,
+    Record<string, unknown>
+  >
+  const [entry = {}] = Object.values(response)
+
+  return {
+    created: false,
+    mappingDiff: diffMappings(service.mappings, getMappingProperties(entry, esVersion))
+  }
+}
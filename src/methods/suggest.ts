@@ -0,0 +1,102 @@
+'use strict'
+
+import { errors } from '@feathersjs/errors'
+import { mapGet } from '../utils/index'
+import { sanitizeQueryString, validateSearchableFields } from '../utils/security'
+import { ElasticAdapterInterface, SuggestOptions, Suggestion } from '../types'
+
+const SUGGESTERS = ['completion', 'term', 'phrase']
+const DEFAULT_SUGGEST_SIZE = 5
+const MAX_SUGGEST_SIZE = 100
+
+type SuggestOption = Record<string, unknown> & { text: string }
+
+/**
+ * Builds the suggester definition of the request
+ */
+function getSuggester(text: string, options: SuggestOptions, type: string, size: number): Record<string, unknown> {
+  if (type === 'completion') {
+    return {
+      prefix: text,
+      completion: {
+        field: options.field,
+        size,
+        ...(options.skipDuplicates && { skip_duplicates: true }),
+        ...(options.fuzzy && { fuzzy: options.fuzzy === true ? {} : options.fuzzy }),
+        ...(options.contexts && { contexts: options.contexts })
+      }
+    }
+  }
+
+  if (options.contexts || options.fuzzy || options.skipDuplicates) {
+    throw new errors.BadRequest(`contexts, fuzzy and skipDuplicates can only be used with completion suggestions`)
+  }
+
+  return { text, [type]: { field: options.field, size } }
+}
+
+/**
+ * Normalizes an option of a suggester response
+ */
+function mapSuggestion(service: ElasticAdapterInterface, type: string, option: SuggestOption): Suggestion {
+  if (type === 'completion') {
+    return {
+      text: option.text,
+      score: option._score as number,
+      payload: option._source ? mapGet(option as never, service.id, service.meta || '', service.join) : undefined
+    }
+  }
+
+  return {
+    text: option.text,
+    score: option.score as number,
+    payload:
+      type === 'term' ? { freq: option.freq } : option.highlighted ? { highlighted: option.highlighted } : undefined
+  }
+}
+
+/**
+ * Gets completion ("search as you type") or term and phrase ("did you mean") suggestions
+ * @param service - The Elasticsearch service instance
+ * @param text - The text typed so far (completion) or to correct (term, phrase)
+ * @param options - Suggester, field, size and completion contexts
+ * @returns Suggestions ordered by score. Term suggestions are listed per token of the text.
+ * @throws BadRequest if the options are invalid or the field is not searchable
+ */
+export async function suggest(
+  service: ElasticAdapterInterface,
+  text: string,
+  options: SuggestOptions
+): Promise<Suggestion[]> {
+  const type = options?.type || 'completion'
+  const size = options?.size ?? DEFAULT_SUGGEST_SIZE
+
+  if (typeof text !== 'string') {
+    throw new errors.BadRequest('Suggestion text must be a string')
+  }
+
+  if (!options || typeof options.field !== 'string' || !options.field) {
+    throw new errors.BadRequest('A suggestion field is required')
+  }
+
+  if (!SUGGESTERS.includes(type)) {
+    throw new errors.BadRequest(`Invalid suggestion type '${type}', expected one of ${SUGGESTERS.join(', ')}`)
+  }
+
+  if (!Number.isInteger(size) || size < 1 || size > MAX_SUGGEST_SIZE) {
+    throw new errors.BadRequest(`Suggestion size must be an integer between 1 and ${MAX_SUGGEST_SIZE}`)
+  }
+
+  validateSearchableFields([options.field], service.security.searchableFields)
+
+  const result = (await service.Model.search({
+    index: service.index,
+    size: 0,
+    suggest: { suggestion: getSuggester(sanitizeQueryString(text, 500), options, type, size) },
+    ...(type === 'completion' && options.select && { _source: options.select })
+  } as never)) as unknown as { suggest?: Record<string, Array<{ options: SuggestOption[] }>> }
+
+  return (result.suggest?.suggestion || []).flatMap((entry) =>
+    entry.options.map((option) => mapSuggestion(service, type, option))
+  )
+}
@@ -0,0 +1,213 @@
+'use strict'
+
+import { errors } from '@feathersjs/errors'
+import { ElasticAdapterInterface, ElasticsearchError, TaskStatus, WaitForTaskOptions } from '../types'
+
+/**
+ * Task actions which can be tracked through the service
+ */
+const TASK_ACTIONS = [
+  'indices:data/write/update/byquery',
+  'indices:data/write/delete/byquery',
+  'indices:data/write/reindex'
+]
+
+const DEFAULT_POLL_INTERVAL = 1000
+
+/**
+ * Validates the format of a task id (`<node id>:<task number>`)
+ */
+function validateTaskId(id: unknown): string {
+  if (typeof id !== 'string' || !/^[\w-]+:\d+$/.test(id)) {
+    throw new errors.BadRequest(`Invalid task id '${id}'`)
+  }
+
+  return id
+}
+
+/**
+ * Gets the indices a by-query or reindex task operates on from its description,
+ * e.g. `update-by-query [people]` or `reindex from [people-v1] to [people-v2]`
+ */
+function getTaskIndices(description: string): string[] {
+  const match = /^(?:update-by-query|delete-by-query|reindex from) \[([^\]]*)\](?: to \[([^\]]*)\])?/.exec(description)
+
+  if (!match) {
+    return []
+  }
+
+  return [match[1], match[2]]
+    .filter((indices) => indices !== undefined)
+    .flatMap((indices) => indices.split(',').map((index) => index.trim()))
+}
+
+/**
+ * Ensures a task only operates on indices the service may access
+ */
+function validateTaskOwnership(
+  service: ElasticAdapterInterface,
+  id: string,
+  action: string,
+  description: string,
+  indices: string[]
+) {
+  const allowed = [service.index, ...service.security.allowedIndices, ...indices]
+  const taskIndices = getTaskIndices(description)
+
+  if (!TASK_ACTIONS.includes(action) || !taskIndices.length || !taskIndices.every((index) => allowed.includes(index))) {
+    throw new errors.Forbidden(`Task ${id} does not belong to index ${service.index}`)
+  }
+}
+
+/**
+ * Normalizes a tasks API response into a task status
+ */
+function mapTask(id: string, result: Record<string, unknown>): TaskStatus {
+  const task = (result.task || {}) as Record<string, unknown>
+  const response = result.response as Record<string, unknown> | undefined
+  // Completed tasks report the final counts in the response
+  const counts = (response || task.status || {}) as Record<string, number>
+
+  const progress = {
+    total: counts.total || 0,
+    created: counts.created || 0,
+    updated: counts.updated || 0,
+    deleted: counts.deleted || 0,
+    versionConflicts: counts.version_conflicts || 0,
+    noops: counts.noops || 0,
+    batches: counts.batches || 0
+  }
+  const processed = progress.created + progress.updated + progress.deleted + progress.versionConflicts + progress.noops
+
+  return {
+    id,
+    action: task.action as string,
+    description: (task.description as string) || '',
+    completed: !!result.completed,
+    cancelled: !!task.cancelled || (response?.canceled as string | undefined) !== undefined,
+    progress,
+    percent: progress.total
+      ? Math.min(100, Math.round((processed / progress.total) * 100))
+      : result.completed
+        ? 100
+        : 0,
+    startTime: task.start_time_in_millis as number,
+    runningTime: Math.round(((task.running_time_in_nanos as number) || 0) / 1e6),
+    failures: (response?.failures as Array<Record<string, unknown>>) || [],
+    ...(result.error !== undefined && { error: result.error as Record<string, unknown> })
+  }
+}
+
+/**
+ * Converts the error or failures of a finished task into an Elasticsearch style error,
+ * so it can be passed to `errorHandler`
+ * @param status - Task status
+ * @returns Error or undefined if the task succeeded
+ */
+export function getTaskError(status: TaskStatus): ElasticsearchError | undefined {
+  if (status.error) {
+    return Object.assign(new Error((status.error.reason as string) || `Task ${status.id} failed`), {
+      name: 'ResponseError',
+      meta: { body: { error: status.error, status: 500 } }
+    })
+  }
+
+  if (status.failures.length) {
+    const [failure] = status.failures
+    const cause = (failure.cause || {}) as { type?: string; reason?: string }
+
+    return Object.assign(new Error(cause.reason || `Task ${status.id} failed`), {
+      name: 'ResponseError',
+      meta: {
+        body: {
+          error: { ...cause, failures: status.failures },
+          status: (failure.status as number) || 500
+        }
+      }
+    })
+  }
+
+  return undefined
+}
+
+/**
+ * Gets the status of a by-query or reindex task
+ * @param service - The Elasticsearch service instance
+ * @param id - Task id
+ * @param indices - Indices the task may operate on besides the ones of the service, e.g. the target of a reindex
+ * @returns Normalized task status
+ * @throws Forbidden if the task operates on an index which is not an index of the service
+ */
+export async function getTask(
+  service: ElasticAdapterInterface,
+  id: string,
+  indices: string[] = []
+): Promise<TaskStatus> {
+  const taskId = validateTaskId(id)
+  const result = (await service.Model.tasks.get({ task_id: taskId })) as unknown as Record<string, unknown>
+  const status = mapTask(taskId, result)
+
+  validateTaskOwnership(service, taskId, status.action, status.description, indices)
+
+  return status
+}
+
+/**
+ * Cancels a running by-query or reindex task
+ * @param service - The Elasticsearch service instance
+ * @param id - Task id
+ * @returns Task status after the cancellation request
+ */
+export async function cancelTask(service: ElasticAdapterInterface, id: string): Promise<TaskStatus> {
+  // Check ownership before cancelling
+  const status = await getTask(service, id)
+
+  if (status.completed) {
+    return status
+  }
+
+  await service.Model.tasks.cancel({ task_id: status.id })
+
+  return getTask(service, status.id)
+}
+
+/**
+ * Polls a task until it has completed
+ * @param service - The Elasticsearch service instance
+ * @param id - Task id
+ * @param options - Poll interval and timeout in milliseconds
+ * @param indices - Indices the task may operate on besides the ones of the service
+ * @returns Status of the completed task
+ * @throws Timeout if the task did not complete in time, or the converted task error if it failed
+ */
+export async function waitForTask(
+  service: ElasticAdapterInterface,
+  id: string,
+  options: WaitForTaskOptions = {},
+  indices: string[] = []
+): Promise<TaskStatus> {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL
+  const deadline = options.timeout !== undefined ? Date.now() + options.timeout : Infinity
+
+  while (true) {
+    const status = await getTask(service, id, indices)
+
+    options.onProgress?.(status)
+
+    if (status.completed) {
+      const error = getTaskError(status)
+
+      if (error) {
+        throw error
+      }
+
+      return status
+    }
+
+    if (Date.now() + pollInterval > deadline) {
+      throw new errors.Timeout(`Task ${id} did not complete within ${options.timeout}ms`, { status })
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollInterval))
+  }
+}
@@ -1,12 +1,14 @@
-import { removeProps, getDocDescriptor } from '../utils/index'
+import { removeProps, getDocDescriptor, addEmbeddings } from '../utils/index'
 import { prepareGetParams, mergeESParamsWithRefresh } from '../utils/params'
+import { getConcurrencyParams, throwConflictWithVersion, ConcurrencyParams } from '../utils/concurrency'
 import { ElasticsearchServiceParams, ElasticAdapterInterface, DocDescriptor } from '../types'
 
 function getUpdateParams(
   service: ElasticAdapterInterface,
   docDescriptor: DocDescriptor,
   filters: Record<string, unknown>,
-  params: ElasticsearchServiceParams = {}
+  params: ElasticsearchServiceParams = {},
+  concurrencyParams: ConcurrencyParams = {}
 ) {
   const { id, routing, doc } = docDescriptor
 
@@ -23,23 +25,32 @@ function getUpdateParams(
   // PERFORMANCE: Merge esParams with per-operation refresh override
   const cleanEsParams = mergeESParamsWithRefresh(service.esParams, params)
   delete cleanEsParams.index
-  return Object.assign(updateParams, cleanEsParams)
+  return Object.assign(updateParams, cleanEsParams, concurrencyParams)
 }
 
-export function update(
+export async function update(
   service: ElasticAdapterInterface,
   id: string | number,
   data: Record<string, unknown>,
   params: ElasticsearchServiceParams = {}
 ) {
   const { filters, query } = service.filterQuery(params)
-  const docDescriptor = getDocDescriptor(service, data, query, {
+  // The document is replaced, so its embedding is always computed again
+  const [embedded] = await addEmbeddings(service.embeddings, [data])
+  const docDescriptor = getDocDescriptor(service, embedded, query, {
     [service.id]: id
   })
-  const updateParams = getUpdateParams(service, docDescriptor, filters, params)
+  const concurrencyParams = getConcurrencyParams(service, data, params)
+  const updateParams = getUpdateParams(service, docDescriptor, filters, params, concurrencyParams)
+  const indexDocument = () =>
+    service.Model.index(updateParams as never).catch((error) =>
+      concurrencyParams.if_seq_no !== undefined
+        ? throwConflictWithVersion(service, error, id, updateParams.index as string, docDescriptor.routing)
+        : Promise.reject(error)
+    )
 
   if (params.upsert) {
-    return service.Model.index(updateParams as never).then((result: unknown) =>
+    return indexDocument().then((result: unknown) =>
       service._get(
         (result as { _id: string })._id,
         removeProps(params as Record<string, unknown>, 'upsert') as ElasticsearchServiceParams
@@ -53,6 +64,6 @@ export function update(
   // The first get is a bit of an overhead, as per the spec we want to update only existing elements.
   return service
     ._get(id, getParams)
-    .then(() => service.Model.index(updateParams as never))
+    .then(indexDocument)
     .then((result: unknown) => service._get((result as { _id: string })._id, params))
 }
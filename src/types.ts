@@ -36,6 +36,8 @@ export type {
 }
 
 import type { SecurityConfig } from './utils/security'
+import type { RetryAttempt, RetryConfig } from './utils/retry'
+import type { CircuitBreaker, CircuitBreakerConfig, CircuitStatus } from './utils/circuit-breaker'
 
 // Error Types
 export interface ElasticsearchErrorMeta {
@@ -97,6 +99,7 @@ export interface ESHit<T = Record<string, unknown>> {
   _seq_no?: number
   _primary_term?: number
   found?: boolean
+  sort?: unknown[]
 }
 
 export interface ESSearchResponse<T = Record<string, unknown>> {
@@ -105,6 +108,7 @@ export interface ESSearchResponse<T = Record<string, unknown>> {
     total: number | { value: number; relation: string }
     max_score?: number
   }
+  aggregations?: Record<string, unknown>
   took?: number
   timed_out?: boolean
   _shards?: {
@@ -224,11 +228,18 @@ export interface QueryOperators {
   $and?: QueryValue[]
   $all?: boolean
   $sqs?: SQSQuery
+  $search?: string | SearchQuery
+  $multiMatch?: MultiMatchQuery
+  $autocomplete?: string
   $nested?: NestedQuery
   $exists?: string[]
   $missing?: string[]
   $child?: ChildParentQuery
   $parent?: ChildParentQuery
+  $geoDistance?: GeoDistanceQuery
+  $geoBoundingBox?: GeoBoundingBoxQuery
+  $geoPolygon?: GeoPolygonQuery
+  $geoShape?: GeoShapeQuery
 }
 
 export interface SQSQuery {
@@ -237,6 +248,39 @@ export interface SQSQuery {
   $operator?: string
 }
 
+export interface SearchQuery {
+  $query: string
+  $type?: string // multi_match type (default: 'best_fields') or 'combined_fields'
+  $fuzziness?: string | number
+  $operator?: 'and' | 'or'
+  $minimumShouldMatch?: string | number
+}
+
+export interface MultiMatchQuery extends SearchQuery {
+  $fields: string[] // Fields with optional boosts, e.g. `title^3`
+}
+
+export interface KnnQuery {
+  field: string // dense_vector field
+  query_vector: number[]
+  k?: number // Nearest neighbors to return (default: 10)
+  num_candidates?: number // Candidates per shard (default: 10 * k, at most 10000)
+  similarity?: number // Minimum similarity of a match
+  hybrid?: 'rrf' | 'weighted' | HybridOptions // Rank with the bool query of the other operators as well
+}
+
+export interface HybridOptions {
+  method: 'rrf' | 'weighted'
+  rank_constant?: number // RRF rank constant (default: 60)
+  rank_window_size?: number // RRF window of each ranking (default: 100)
+  query_weight?: number // Weight of the bool query score (default: 1)
+  knn_weight?: number // Weight of the vector similarity (default: 1)
+}
+
+export interface SemanticQuery extends Omit<KnnQuery, 'field' | 'query_vector'> {
+  query: string // Text whose embedding is searched
+}
+
 export interface NestedQuery {
   $path: string
   [key: string]: QueryValue
@@ -247,6 +291,31 @@ export interface ChildParentQuery {
   [key: string]: QueryValue
 }
 
+// Geo Query Types
+export type GeoPoint = { lat: number | string; lon: number | string } | [number, number] | string
+
+export interface GeoDistanceQuery {
+  $distance: string | number
+  $point: GeoPoint
+}
+
+export interface GeoBoundingBoxQuery {
+  $topLeft: GeoPoint
+  $bottomRight: GeoPoint
+}
+
+export interface GeoPolygonQuery {
+  $points: GeoPoint[]
+}
+
+export interface GeoShapeQuery {
+  $shape: { type: string; coordinates?: unknown; [key: string]: unknown }
+  $relation?: 'intersects' | 'disjoint' | 'within' | 'contains'
+}
+
+// Search engine of the cluster
+export type Distribution = 'elasticsearch' | 'opensearch'
+
 // Service Types
 export interface ElasticsearchServiceOptions {
   Model: Client
@@ -257,25 +326,93 @@ export interface ElasticsearchServiceOptions {
   routing?: string
   join?: string
   meta?: string
-  esVersion?: string
+  highlight?: string // Property for highlight fragments (default: `highlight` in the meta property)
+  esVersion?: string // Elasticsearch version (default: detected with `info()` on the first call)
+  distribution?: Distribution // Search engine (default: detected), needed for OpenSearch when esVersion is set
   esParams?: Record<string, unknown>
+  pitKeepAlive?: string // Keep-alive of point-in-times opened for cursor pagination (default: '1m')
+  optimisticConcurrency?: boolean // Make writes conditional on the `_seq_no`/`_primary_term` in the data meta
+  bulk?: BulkOptions // Chunking of multi create requests
+  settings?: Record<string, unknown> // Index settings used when setup() creates the index
+  mappings?: Record<string, unknown> // Index mappings used by setup() to create the index and check for changes
+  schema?: Record<string, unknown> // JSON Schema of the documents, generates `mappings` if they are not declared
+  aliases?: Record<string, unknown> // Index aliases used when setup() creates the index
+  aliasIndex?: boolean // `index` is an alias, setup() creates `<index>-v1` behind it (required by reindexTo)
+  queryMapping?: boolean | QueryMappingOptions // Translate queries with the index mapping
   multi?: boolean
   whitelist?: string[]
   paginate?: PaginationOptions
   filters?: Record<string, (val: unknown) => unknown>
-  operators?: string[]
+  searchFields?: string[] // Fields searched by `$search`, with optional boosts (default: all searchable fields)
+  vectorFields?: Record<string, number> // Dimensions of the dense_vector fields (default: from `mappings`)
+  embeddings?: EmbeddingsOptions // Store the embedding of text fields and search it with `$semantic`
+  retry?: RetryConfig | false // Retries of idempotent requests failing with a transient error (default: enabled)
+  circuitBreaker?: boolean | CircuitBreakerConfig // Fail fast while the cluster is unhealthy (default: disabled)
+  operators?: string[] | CustomOperators // Additional Feathers operators, or custom query operators by name
   security?: SecurityConfig
   events?: string[]
 }
 
+// Context passed to the compile function of a custom operator
+export interface OperatorContext {
+  field?: string // Queried field of a criteria operator
+  parse: (query: Record<string, unknown>) => ESQuery | null // Parses a sub-query with the operators of the service
+}
+
+// A custom query operator of the `operators` option
+export interface CustomOperator {
+  kind: 'criteria' | 'special' // Used on a field (`{ price: { $op: value } }`) or on the query (`{ $op: value }`)
+  compile: (value: unknown, context: OperatorContext) => QueryClause | null | undefined
+  section?: 'must' | 'filter' | 'should' | 'must_not' // Bool query section of the clause (default: 'filter')
+  complexity?: number // Query complexity added for every use (default: 0)
+  cacheable?: boolean // compile only depends on its arguments, so parsed queries can be cached (default: false)
+}
+
+export type CustomOperators = Record<string, CustomOperator>
+
+export interface EmbeddingsOptions {
+  field: string // dense_vector field storing the embedding
+  sourceFields: string[] // Fields whose text is embedded, with dots for nested properties
+  embed: (texts: string[]) => Promise<number[][]> // Returns one vector per text
+  batchSize?: number // Texts per embed call during bulk writes (default: 100)
+}
+
+export interface QueryMappingOptions {
+  rejectUnmapped?: boolean // Reject queries on fields which are not mapped with BadRequest
+  maxAge?: number // Milliseconds the loaded mapping is cached (default: 5 minutes)
+}
+
+export interface BulkOptions {
+  maxDocuments?: number // Documents per bulk request (default: 1000)
+  maxBytes?: number // Serialized size per bulk request in bytes (default: 5MB)
+  concurrency?: number // Bulk requests sent in parallel (default: 2)
+  retry?: RetryConfig // Backoff for items rejected with 429
+}
+
 export interface ElasticsearchServiceParams extends AdapterParams {
   query?: Record<string, QueryValue> & QueryOperators
   elasticsearch?: Record<string, unknown>
   upsert?: boolean
   lean?: boolean // Skip fetching full documents after bulk operations (performance optimization)
   refresh?: boolean | 'wait_for' // Control when index refresh happens
+  aggregations?: Record<string, unknown> // Aggregation definitions merged with the `$aggs` filter
+  cursor?: boolean // Use point-in-time + search_after pagination (implied by `$after`)
+  batchSize?: number // Documents fetched per request by iterate() and stream()
+  ifSeqNo?: number // Only write if the document has this sequence number
+  ifPrimaryTerm?: number // Only write if the document has this primary term
+  retryOnConflict?: number // Retries of patches on version conflicts (default: 3 for update operators)
+  byQuery?: boolean | ByQueryOptions // Run multi patch/remove on the server with update_by_query/delete_by_query
+  bulkResult?: boolean | 'strict' // Multi create/patch/remove return a `BulkResult`, or throw if any item failed
+  retry?: RetryConfig | false // Retries of this call, merged with the `retry` option
+}
+
+export interface ByQueryOptions {
+  slices?: number | 'auto' // Parallelize the operation over this many slices
+  conflicts?: 'abort' | 'proceed' // Continue on version conflicts instead of aborting
+  waitForCompletion?: boolean // When false, run as a background task and return its id
 }
 
+
 export interface DocDescriptor {
   id?: string
   parent?: string
@@ -293,8 +430,27 @@ export interface ElasticAdapterInterface {
   routing?: string
   join?: string
   meta: string
-  esVersion?: string
+  esVersion?: string // Configured or detected version
+  configuredVersion?: string // `esVersion` option
+  detectedVersion?: string
+  distribution?: Distribution
   esParams?: Record<string, unknown>
+  pitKeepAlive?: string
+  optimisticConcurrency?: boolean
+  bulk?: BulkOptions
+  settings?: Record<string, unknown>
+  mappings?: Record<string, unknown>
+  aliases?: Record<string, unknown>
+  aliasIndex?: boolean
+  queryMapping?: boolean | QueryMappingOptions
+  mappingCache?: { fields: Promise<MappedFields | null>; loadedAt: number }
+  customOperators?: CustomOperators
+  searchFields?: string[]
+  vectorFields?: Record<string, number>
+  embeddings?: EmbeddingsOptions
+  highlight?: string
+  retry?: RetryConfig | false
+  circuitBreaker?: CircuitBreaker
   security: Required<SecurityConfig>
   core?: Record<string, unknown>
   filterQuery: (params: ElasticsearchServiceParams) => {
@@ -302,6 +458,7 @@ export interface ElasticAdapterInterface {
     query: Record<string, unknown>
     paginate?: PaginationOptions | false
   }
+  reportRetry: (attempt: RetryAttempt, params?: ElasticsearchServiceParams) => void
   _find: (params?: ElasticsearchServiceParams) => Promise<unknown>
   _get: (id: string | number, params?: ElasticsearchServiceParams) => Promise<unknown>
   _create: (
@@ -318,6 +475,8 @@ export type ElasticsearchMethod<T = unknown> = (
 
 // Re-export SecurityConfig for convenience
 export type { SecurityConfig } from './utils/security'
+export type { RetryConfig, RetryAttempt } from './utils/retry'
+export type { CircuitBreaker, CircuitBreakerConfig, CircuitState, CircuitStatus } from './utils/circuit-breaker'
 
 // Utility Types
 export type ValidatorType =
@@ -335,15 +494,85 @@ export interface CachedQuery {
   result: ESQuery | null
 }
 
+// Aggregation Types
+export interface AggregationBucket {
+  key: string | number
+  keyAsString?: string
+  docCount: number
+  from?: number
+  to?: number
+  aggregations?: AggregationResults
+}
+
+export interface BucketAggregationResult {
+  type: string
+  buckets: AggregationBucket[]
+  docCountErrorUpperBound?: number
+  sumOtherDocCount?: number
+}
+
+export interface SingleBucketAggregationResult {
+  type: string
+  docCount: number
+  aggregations?: AggregationResults
+}
+
+export interface StatsAggregationResult {
+  type: string
+  count: number
+  min: number | null
+  max: number | null
+  avg: number | null
+  sum: number
+}
+
+export interface ValueAggregationResult {
+  type: string
+  value: number | null
+  valueAsString?: string
+}
+
+export interface PercentilesAggregationResult {
+  type: string
+  values: Record<string, number | null>
+}
+
+export interface UnknownAggregationResult {
+  type: string
+  raw: Record<string, unknown>
+}
+
+export type AggregationResult =
+  | BucketAggregationResult
+  | SingleBucketAggregationResult
+  | StatsAggregationResult
+  | ValueAggregationResult
+  | PercentilesAggregationResult
+  | UnknownAggregationResult
+
+export type AggregationResults = Record<string, AggregationResult>
+
 // Result Types
 export interface PaginatedResult<T = Record<string, unknown>> {
   total: number
   limit: number
   skip: number
   data: T[]
+  aggregations?: AggregationResults
 }
 
-export type ServiceResult<T = Record<string, unknown>> = T | T[] | PaginatedResult<T>
+export interface CursorResult<T = Record<string, unknown>> {
+  total: number
+  data: T[]
+  next: string | null // Opaque cursor to pass back as `$after`, null on the last page
+}
+
+export interface CursorState {
+  pit: string
+  after: unknown[]
+}
+
+export type ServiceResult<T = Record<string, unknown>> = T | T[] | PaginatedResult<T> | CursorResult<T>
 
 // Adapter Types
 export interface AdapterOptions extends Omit<ElasticsearchServiceOptions, 'multi'> {
@@ -363,6 +592,162 @@ export interface BulkOperation {
 
 export interface BulkResult<T = Record<string, unknown>> {
   items: T[]
-  errors?: Array<Record<string, unknown>>
+  errors?: BulkItemError[]
   raw?: ESBulkResponse
 }
+
+// A failed item of a multi create, patch or remove
+export interface BulkItemError {
+  index: number // Position of the item in the input data (or the matched documents)
+  id?: string | number
+  status: number
+  type: string // Elasticsearch error type
+  reason: string
+  errorClass: string // Name of the corresponding Feathers error, e.g. `Conflict`
+}
+
+// Summary of a multi patch/remove run with `byQuery`
+export interface ByQueryResult {
+  total: number
+  updated?: number
+  deleted?: number
+  versionConflicts: number
+  noops: number
+  failures: Array<Record<string, unknown>>
+  took: number
+  timedOut: boolean
+}
+
+// Returned by `byQuery` operations with `waitForCompletion: false`
+export interface ByQueryTask {
+  task: string
+}
+
+// An existing field whose declared mapping differs from the live mapping
+export interface MappingConflict {
+  field: string // Dotted field path
+  parameter: string // Mapping parameter, e.g. `type` or `analyzer`
+  declared: unknown
+  live: unknown
+}
+
+// Differences between the declared and the live mappings of an index
+export interface MappingDiff {
+  added: string[] // Declared fields missing in the live mappings, can be added with a mapping update
+  conflicts: MappingConflict[] // Incompatible changes, require a reindex
+}
+
+// Type of a mapped field, text fields with the path of their keyword subfield
+export interface MappedField {
+  type: string
+  keyword?: string
+}
+
+export type MappedFields = Record<string, MappedField>
+
+// Result of preparing the service index in setup()
+export interface IndexSetupResult {
+  created: boolean
+  mappingDiff?: MappingDiff
+}
+
+// Document counts of a by-query or reindex task
+export interface TaskProgress {
+  total: number
+  created: number
+  updated: number
+  deleted: number
+  versionConflicts: number
+  noops: number
+  batches: number
+}
+
+// Normalized status of a by-query or reindex task
+export interface TaskStatus {
+  id: string
+  action: string
+  description: string
+  completed: boolean
+  cancelled: boolean
+  progress: TaskProgress
+  percent: number // Processed documents of the total, 0 - 100
+  startTime: number // Epoch milliseconds
+  runningTime: number // Milliseconds
+  failures: Array<Record<string, unknown>>
+  error?: Record<string, unknown>
+}
+
+export interface WaitForTaskOptions {
+  pollInterval?: number // Milliseconds between status requests (default: 1000)
+  timeout?: number // Milliseconds to wait before throwing `Timeout` (default: no limit)
+  onProgress?: (status: TaskStatus) => void // Called with every status of the running task
+}
+
+export interface SuggestOptions {
+  field: string // Completion field for 'completion', text field for 'term' and 'phrase'
+  type?: 'completion' | 'term' | 'phrase' // Suggester (default: 'completion')
+  size?: number // Maximum number of suggestions (default: 5)
+  contexts?: Record<string, unknown> // Contexts of a completion field, e.g. `{ category: ['books'] }`
+  fuzzy?: boolean | Record<string, unknown> // Fuzzy completion, `true` or the fuzzy options
+  skipDuplicates?: boolean // Skip completions with the same text
+  select?: string[] // Source fields of the documents of completions
+}
+
+// A normalized completion, term or phrase suggestion
+export interface Suggestion {
+  text: string
+  score: number
+  payload?: Record<string, unknown> // Document of a completion, `freq` of a term, `highlighted` of a phrase
+}
+
+export interface ReindexOptions extends WaitForTaskOptions {
+  index?: string // Name of the new physical index (default: `<alias>-v<n + 1>`)
+  slices?: number | 'auto' // Parallelize the copy over this many slices
+  deleteOld?: boolean // Delete the old index after the aliases were swapped
+}
+
+// Result of reindexTo(), can be passed to rollbackReindex()
+export interface ReindexResult {
+  alias: string
+  from: string // Previous physical index
+  to: string // New physical index
+  oldDeleted: boolean
+  copied: TaskProgress // Documents copied while the old index was writable
+  caughtUp: TaskProgress // Documents copied after blocking writes (changed during the copy)
+  removed: number // Documents deleted from the old index during the copy, and so from the new one
+}
+
+// Report of health(), every property is always present so it can be exposed as it is
+export interface HealthStatus {
+  status: 'ok' | 'degraded' | 'unavailable'
+  ready: boolean // The cluster responds, the index exists, neither is red and the circuit is not open
+  checkedAt: string // ISO date
+  cluster: {
+    name: string | null
+    status: 'green' | 'yellow' | 'red' | null // null if the cluster did not respond
+  }
+  index: {
+    name: string // `index` of the service
+    exists: boolean
+    alias: boolean // Whether `index` is an alias
+    indices: string[] // Physical indices behind the name
+    health: 'green' | 'yellow' | 'red' | null // Worst health of the indices
+    docsCount: number | null
+  }
+  version: {
+    distribution: Distribution | null // null if the cluster did not respond
+    detected: string | null // Version reported by the cluster
+    configured: string | null // `esVersion` option
+    supported: boolean // Whether the detected version is one of the supported versions of the distribution
+    supportedVersions: string[] // `SUPPORTED_ES_VERSIONS` or `SUPPORTED_OPENSEARCH_VERSIONS`
+  }
+  circuitBreaker: CircuitStatus | null // null without the `circuitBreaker` option
+  retry: {
+    enabled: boolean
+    maxRetries: number
+    initialDelay: number
+    maxDelay: number
+    backoffMultiplier: number
+  }
+  errors: string[] // Messages of the requests which failed
+}
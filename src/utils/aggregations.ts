@@ -0,0 +1,261 @@
+import { errors } from '@feathersjs/errors'
+import { AggregationBucket, AggregationResult, AggregationResults, ElasticsearchServiceParams } from '../types'
+import { sanitizeObject } from './security'
+
+/**
+ * Keys of an aggregation definition which are not the aggregation type
+ */
+const DEFINITION_KEYS = ['aggs', 'aggregations', 'meta']
+
+/**
+ * Keys of a raw bucket which are not sub-aggregations
+ */
+const BUCKET_KEYS = ['key', 'key_as_string', 'doc_count', 'from', 'to', 'from_as_string', 'to_as_string']
+
+/**
+ * Bucket aggregation types whose `size`/`shard_size` is limited by `maxAggregationSize`
+ */
+const SIZED_AGGREGATIONS = ['terms', 'multi_terms', 'significant_terms', 'rare_terms', 'composite', 'top_hits']
+
+/**
+ * Aggregation types which run scripts
+ */
+const SCRIPTED_AGGREGATIONS = ['scripted_metric', 'bucket_script', 'bucket_selector']
+
+type AggregationDefinitions = Record<string, Record<string, unknown>>
+
+/**
+ * Gets the aggregation type and sub-aggregations of a single definition
+ */
+function describeDefinition(definition: Record<string, unknown> = {}) {
+  const type = Object.keys(definition).find((key) => !DEFINITION_KEYS.includes(key))
+  const subAggs = (definition.aggs || definition.aggregations) as AggregationDefinitions | undefined
+
+  return { type, body: type ? (definition[type] as Record<string, unknown>) : undefined, subAggs }
+}
+
+/**
+ * Finds a script in an aggregation body at any depth: `script`, `*_script` (like `map_script`) or `script_fields`
+ * @returns Path of the first script key, or undefined
+ */
+function findScript(value: unknown, path = ''): string | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined
+  }
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (key === 'script' || key.endsWith('_script') || key === 'script_fields') {
+      return `${path}${key}`
+    }
+
+    const found = findScript(item, `${path}${key}.`)
+    if (found) {
+      return found
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Merges the `$aggs` filter and `params.aggregations` into a single definition object
+ * @param filters - Filters returned by `filterQuery`
+ * @param params - Service parameters
+ * @returns Aggregation definitions or undefined if none were requested
+ */
+export function getAggregations(
+  filters: Record<string, unknown>,
+  params: ElasticsearchServiceParams = {}
+): AggregationDefinitions | undefined {
+  if (!filters.$aggs && !params.aggregations) {
+    return undefined
+  }
+
+  return sanitizeObject({
+    ...(filters.$aggs as AggregationDefinitions),
+    ...(params.aggregations as AggregationDefinitions)
+  })
+}
+
+/**
+ * Validates aggregation definitions against the security limits
+ * @param aggs - Aggregation definitions
+ * @param maxAggregations - Maximum number of aggregations (including sub-aggregations)
+ * @param maxSize - Maximum `size` of bucket aggregations
+ * @throws BadRequest if a definition is invalid or exceeds the limits
+ */
+export function validateAggregations(aggs: unknown, maxAggregations: number, maxSize: number): void {
+  let count = 0
+
+  const validateLevel = (level: unknown, path: string) => {
+    if (!level || typeof level !== 'object' || Array.isArray(level)) {
+      throw new errors.BadRequest(`Invalid aggregations definition at '${path}'`)
+    }
+
+    Object.entries(level as AggregationDefinitions).forEach(([name, definition]) => {
+      const { type, body, subAggs } = describeDefinition(definition)
+
+      if (!type || !body || typeof body !== 'object') {
+        throw new errors.BadRequest(`Aggregation '${path}${name}' must define an aggregation type`)
+      }
+
+      // SECURITY: Scripts run arbitrary code on the cluster
+      if (SCRIPTED_AGGREGATIONS.includes(type) || findScript(body)) {
+        throw new errors.BadRequest(`Scripts are not allowed in aggregation '${path}${name}'`)
+      }
+
+      count += 1
+      if (count > maxAggregations) {
+        throw new errors.BadRequest(`Number of aggregations exceeds maximum of ${maxAggregations}`)
+      }
+
+      if (SIZED_AGGREGATIONS.includes(type)) {
+        ;['size', 'shard_size'].forEach((prop) => {
+          if (body[prop] !== undefined && Number(body[prop]) > maxSize) {
+            throw new errors.BadRequest(
+              `Aggregation '${path}${name}' ${prop} (${body[prop]}) exceeds maximum of ${maxSize}`
+            )
+          }
+        })
+      }
+
+      if (subAggs) {
+        validateLevel(subAggs, `${path}${name}.`)
+      }
+    })
+  }
+
+  validateLevel(aggs, '')
+}
+
+/**
+ * Normalizes a single raw bucket
+ */
+function normalizeBucket(
+  raw: Record<string, unknown>,
+  subAggs?: AggregationDefinitions,
+  keyName?: string
+): AggregationBucket {
+  const bucket: AggregationBucket = {
+    key: (raw.key as string | number) ?? keyName ?? '',
+    docCount: raw.doc_count as number
+  }
+
+  if (raw.key_as_string !== undefined) {
+    bucket.keyAsString = raw.key_as_string as string
+  }
+
+  if (raw.from !== undefined) {
+    bucket.from = raw.from as number
+  }
+
+  if (raw.to !== undefined) {
+    bucket.to = raw.to as number
+  }
+
+  const nested = normalizeLevel(raw, subAggs, BUCKET_KEYS)
+  if (Object.keys(nested).length) {
+    bucket.aggregations = nested
+  }
+
+  return bucket
+}
+
+/**
+ * Normalizes a single raw aggregation result
+ */
+function normalizeAggregation(raw: Record<string, unknown>, definition?: Record<string, unknown>): AggregationResult {
+  const { type, subAggs } = describeDefinition(definition)
+
+  if (raw.buckets !== undefined) {
+    const buckets = Array.isArray(raw.buckets)
+      ? (raw.buckets as Array<Record<string, unknown>>).map((bucket) => normalizeBucket(bucket, subAggs))
+      : Object.entries(raw.buckets as Record<string, Record<string, unknown>>).map(([key, bucket]) =>
+          normalizeBucket(bucket, subAggs, key)
+        )
+
+    return {
+      type: type || 'buckets',
+      buckets,
+      ...(raw.doc_count_error_upper_bound !== undefined && {
+        docCountErrorUpperBound: raw.doc_count_error_upper_bound as number
+      }),
+      ...(raw.sum_other_doc_count !== undefined && { sumOtherDocCount: raw.sum_other_doc_count as number })
+    }
+  }
+
+  if (raw.values !== undefined) {
+    const values = Array.isArray(raw.values)
+      ? (raw.values as Array<{ key: number; value: number | null }>).reduce(
+          // Keys like the keyed form: '50.0' for whole percents, '99.99' otherwise
+          (result, { key, value }) =>
+            Object.assign(result, { [Number.isInteger(Number(key)) ? Number(key).toFixed(1) : String(key)]: value }),
+          {} as Record<string, number | null>
+        )
+      : (raw.values as Record<string, number | null>)
+
+    return { type: type || 'percentiles', values }
+  }
+
+  if (raw.count !== undefined && raw.avg !== undefined) {
+    return {
+      type: type || 'stats',
+      count: raw.count as number,
+      min: raw.min as number | null,
+      max: raw.max as number | null,
+      avg: raw.avg as number | null,
+      sum: raw.sum as number
+    }
+  }
+
+  if (raw.value !== undefined) {
+    return {
+      type: type || 'value',
+      value: raw.value as number | null,
+      ...(raw.value_as_string !== undefined && { valueAsString: raw.value_as_string as string })
+    }
+  }
+
+  if (raw.doc_count !== undefined) {
+    const nested = normalizeLevel(raw, subAggs, ['doc_count'])
+
+    return {
+      type: type || 'single_bucket',
+      docCount: raw.doc_count as number,
+      ...(Object.keys(nested).length && { aggregations: nested })
+    }
+  }
+
+  return { type: type || 'unknown', raw }
+}
+
+/**
+ * Normalizes all aggregations of one level, skipping the given non-aggregation keys
+ */
+function normalizeLevel(
+  raw: Record<string, unknown>,
+  definitions: AggregationDefinitions | undefined,
+  skipKeys: string[] = []
+): AggregationResults {
+  const names = definitions
+    ? Object.keys(definitions).filter((name) => raw[name] !== undefined)
+    : Object.keys(raw).filter((name) => !skipKeys.includes(name) && raw[name] !== null && typeof raw[name] === 'object')
+
+  return names.reduce((result: AggregationResults, name) => {
+    result[name] = normalizeAggregation(raw[name] as Record<string, unknown>, definitions?.[name])
+    return result
+  }, {})
+}
+
+/**
+ * Normalizes a raw Elasticsearch `aggregations` response into typed bucket and metric structures
+ * @param raw - The `aggregations` property of a search response
+ * @param definitions - The requested aggregation definitions (used to resolve types and sub-aggregations)
+ * @returns Normalized aggregation results keyed by aggregation name
+ */
+export function normalizeAggregations(
+  raw: Record<string, unknown>,
+  definitions?: AggregationDefinitions
+): AggregationResults {
+  return normalizeLevel(raw, definitions)
+}
@@ -0,0 +1,132 @@
+import { errors } from '@feathersjs/errors'
+import { errorHandler } from '../error-handler'
+import { BulkItemError, BulkResult, ESBulkResponseItem } from '../types'
+
+/**
+ * Gets the failed items of a bulk response
+ * @param items - Items of the bulk response, in input order
+ * @returns Failed items with their input position, error details and Feathers error class
+ */
+export function getBulkErrors(items: ESBulkResponseItem[]): BulkItemError[] {
+  return items.reduce((result: BulkItemError[], item, index) => {
+    const operation = item.create || item.index || item.update || item.delete
+
+    if (!operation || (operation.status < 300 && !operation.error)) {
+      return result
+    }
+
+    // Deleting a missing document is reported without an error object
+    const type = operation.error?.type || operation.result || 'unknown'
+    const reason = operation.error?.reason || `Document ${operation._id} ${operation.result || 'failed'}`
+    const error = errorHandler(
+      Object.assign(new Error(reason), {
+        name: 'ResponseError',
+        meta: { body: { error: { type, reason }, status: operation.status }, statusCode: operation.status }
+      })
+    )
+
+    result.push({
+      index,
+      id: operation._id,
+      status: operation.status,
+      type,
+      reason,
+      errorClass: error.name
+    })
+
+    return result
+  }, [])
+}
+
+/**
+ * Builds the structured result of a multi create, patch or remove
+ * @param aligned - Mapped results, one for every item of the bulk response
+ * @param items - Items of the bulk response
+ * @param mode - `true` to return a `BulkResult`, `'strict'` to throw if any item failed
+ * @returns `BulkResult` with the succeeded items and the errors, or only the items in strict mode
+ * @throws The Feathers error shared by all failed items (GeneralError if they differ) in strict mode,
+ * with the `BulkResult` as data
+ */
+export function toBulkResult<T>(aligned: T[], items: ESBulkResponseItem[], mode: true | 'strict'): BulkResult<T> | T[] {
+  const bulkErrors = getBulkErrors(items)
+  const failed = new Set(bulkErrors.map((error) => error.index))
+  const result: BulkResult<T> = {
+    items: aligned.filter((_item, index) => !failed.has(index)),
+    errors: bulkErrors
+  }
+
+  if (mode !== 'strict') {
+    return result
+  }
+
+  if (!bulkErrors.length) {
+    return result.items
+  }
+
+  const classes = new Set(bulkErrors.map((error) => error.errorClass))
+  const errorClass = classes.size === 1 ? [...classes][0] : 'GeneralError'
+  const ErrorClass = (errors as unknown as Record<string, new (message: string, data?: unknown) => Error>)[errorClass]
+
+  throw new (ErrorClass || errors.GeneralError)(
+    `${bulkErrors.length} of ${aligned.length} bulk operations failed`,
+    result
+  )
+}
+
+/**
+ * Splits bulk items into chunks limited by item count and serialized size.
+ * An item larger than `maxBytes` is sent in a chunk of its own.
+ * @param sizes - Serialized size of every item (action and document)
+ * @param maxItems - Maximum number of items per chunk
+ * @param maxBytes - Maximum size of a chunk
+ * @returns Chunks as `[start, end)` ranges of item positions
+ */
+export function getBulkChunks(sizes: number[], maxItems: number, maxBytes: number): Array<[number, number]> {
+  const chunks: Array<[number, number]> = []
+  let start = 0
+  let bytes = 0
+
+  sizes.forEach((size, index) => {
+    if (index > start && (index - start >= maxItems || bytes + size > maxBytes)) {
+      chunks.push([start, index])
+      start = index
+      bytes = 0
+    }
+
+    bytes += size
+  })
+
+  if (start < sizes.length) {
+    chunks.push([start, sizes.length])
+  }
+
+  return chunks
+}
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at a time
+ * @param items - Items to map
+ * @param concurrency - Maximum number of pending calls
+ * @param fn - Async mapping function
+ * @returns Results in the order of the items
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker))
+
+  return results
+}
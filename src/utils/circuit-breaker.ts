@@ -0,0 +1,180 @@
+import { errors } from '@feathersjs/errors'
+import { isRetryableError } from './retry'
+
+/**
+ * Configuration of the circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number // Consecutive failures which open the circuit
+  errorRate?: number // Share of failed requests in the window which opens the circuit (0 to 1)
+  windowSize?: number // Number of recent requests the error rate is taken from
+  minimumRequests?: number // Requests in the window before the error rate applies
+  cooldown?: number // Milliseconds until an open circuit lets a trial request through
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  requests: number // Requests in the window
+  errorRate: number // Share of failed requests in the window
+  openedAt: string | null // When the circuit opened (ISO date)
+  retryAt: string | null // When an open circuit lets a trial request through (ISO date)
+}
+
+export interface CircuitBreaker {
+  readonly state: CircuitState
+  getStatus: () => CircuitStatus
+  execute: <T>(operation: () => Promise<T>) => Promise<T>
+  reset: () => void
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  errorRate: 0.5,
+  windowSize: 20,
+  minimumRequests: 10,
+  cooldown: 30000
+}
+
+/**
+ * Creates a circuit breaker. Requests failing with a transient error (see `isRetryableError`) count as failures,
+ * other errors show that the cluster responds. The circuit opens after `failureThreshold` consecutive failures,
+ * or when the error rate of the last `windowSize` requests reaches `errorRate`. While it is open, requests fail
+ * with `Unavailable` without being sent. After the cooldown it is half-open: a single trial request is sent,
+ * which closes the circuit if it succeeds and opens it again if it fails.
+ * @param config - Circuit breaker configuration
+ * @param now - Clock in milliseconds
+ * @returns The circuit breaker
+ */
+export function createCircuitBreaker(config: CircuitBreakerConfig = {}, now: () => number = Date.now): CircuitBreaker {
+  const { failureThreshold, errorRate, windowSize, minimumRequests, cooldown } = {
+    ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    ...config
+  }
+  let state: CircuitState = 'closed'
+  let consecutiveFailures = 0
+  let outcomes: boolean[] = [] // Whether each request of the window failed
+  let openedAt: number | null = null
+  let trialPending = false
+
+  const getErrorRate = () => (outcomes.length ? outcomes.filter(Boolean).length / outcomes.length : 0)
+
+  const open = () => {
+    state = 'open'
+    openedAt = now()
+    trialPending = false
+  }
+
+  const close = () => {
+    state = 'closed'
+    consecutiveFailures = 0
+    outcomes = []
+    openedAt = null
+    trialPending = false
+  }
+
+  const updateState = () => {
+    if (state === 'open' && now() - (openedAt as number) >= cooldown) {
+      state = 'half-open'
+    }
+  }
+
+  const record = (failed: boolean) => {
+    if (state === 'half-open') {
+      return failed ? open() : close()
+    }
+
+    // Requests sent before the circuit opened do not count
+    if (state === 'open') {
+      return
+    }
+
+    outcomes = [...outcomes, failed].slice(-windowSize)
+    consecutiveFailures = failed ? consecutiveFailures + 1 : 0
+
+    if (
+      consecutiveFailures >= failureThreshold ||
+      (outcomes.length >= minimumRequests && getErrorRate() >= errorRate)
+    ) {
+      open()
+    }
+  }
+
+  return {
+    get state() {
+      updateState()
+      return state
+    },
+
+    getStatus() {
+      updateState()
+
+      return {
+        state,
+        consecutiveFailures,
+        requests: outcomes.length,
+        errorRate: getErrorRate(),
+        openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+        retryAt: openedAt === null ? null : new Date(openedAt + cooldown).toISOString()
+      }
+    },
+
+    async execute<T>(operation: () => Promise<T>): Promise<T> {
+      updateState()
+
+      if (state === 'open' || (state === 'half-open' && trialPending)) {
+        throw new errors.Unavailable('Elasticsearch is unavailable, the circuit breaker is open', {
+          retryAt: new Date((openedAt as number) + cooldown).toISOString()
+        })
+      }
+
+      trialPending = state === 'half-open'
+
+      try {
+        const result = await operation()
+        record(false)
+        return result
+      } catch (error) {
+        record(isRetryableError(error as Error))
+        throw error
+      }
+    },
+
+    reset: close
+  }
+}
+
+/**
+ * Wraps the methods of an Elasticsearch client, and of its namespaces like `indices`, with a circuit breaker
+ * @param esClient - Elasticsearch client
+ * @param breaker - Circuit breaker
+ * @param path - Namespace of the wrapped object, e.g. `indices.`
+ * @returns Wrapped client
+ */
+export function createCircuitBreakerWrapper(
+  esClient: Record<string, unknown>,
+  breaker: CircuitBreaker,
+  path = ''
+): Record<string, unknown> {
+  return new Proxy(esClient, {
+    get(target, prop) {
+      const original = target[prop as keyof typeof target]
+
+      if (original && typeof original === 'object' && !path) {
+        return createCircuitBreakerWrapper(original as Record<string, unknown>, breaker, `${String(prop)}.`)
+      }
+
+      if (typeof original !== 'function') {
+        return original
+      }
+
+      return (...args: unknown[]) =>
+        breaker.execute(() => (original as (...args: unknown[]) => Promise<unknown>).apply(target, args))
+    }
+  })
+}
@@ -0,0 +1,289 @@
+import { errors } from '@feathersjs/errors'
+import {
+  ES_REQUEST_BODY,
+  ES_TOTAL_HITS,
+  ES_TYPE_REQUIREMENTS,
+  SUPPORTED_ES_VERSIONS,
+  SUPPORTED_OPENSEARCH_VERSIONS
+} from '../config/versions'
+import { Distribution } from '../types'
+import { getCompatProp, isSupportedVersion } from './core'
+
+type Request = Record<string, unknown>
+
+/**
+ * Parameters which belong in the request body, by client method
+ */
+const BODY_PARAMS: Record<string, string[]> = {
+  search: [
+    'query',
+    'aggs',
+    'aggregations',
+    'sort',
+    'from',
+    'size',
+    '_source',
+    'highlight',
+    'suggest',
+    'search_after',
+    'pit',
+    'knn',
+    'rank',
+    'retriever',
+    'collapse',
+    'post_filter',
+    'track_total_hits',
+    'seq_no_primary_term'
+  ],
+  count: ['query'],
+  update: ['doc', 'script', 'upsert', 'doc_as_upsert', 'scripted_upsert', 'detect_noop'],
+  mget: ['docs', 'ids'],
+  updateByQuery: ['query', 'script', 'max_docs', 'slice'],
+  deleteByQuery: ['query', 'max_docs', 'slice'],
+  reindex: ['source', 'dest', 'script', 'max_docs'],
+  closePointInTime: ['id'],
+  'indices.create': ['settings', 'mappings', 'aliases'],
+  'indices.putMapping': ['properties', 'dynamic', 'dynamic_templates', '_meta', '_source', 'runtime'],
+  'indices.updateAliases': ['actions']
+}
+
+/**
+ * Parameters which are the whole request body, by client method
+ */
+const WHOLE_BODY_PARAMS: Record<string, string> = {
+  index: 'document',
+  create: 'document',
+  bulk: 'operations',
+  'indices.putSettings': 'settings'
+}
+
+/**
+ * Client methods which address documents by type before 7.0
+ */
+const TYPED_METHODS = ['index', 'create', 'get', 'exists', 'update', 'delete', 'mget', 'indices.putMapping']
+
+const BULK_ACTIONS = ['index', 'create', 'update', 'delete']
+
+/**
+ * Features of Elasticsearch requests which OpenSearch does not have, by request parameter
+ */
+const OPENSEARCH_UNSUPPORTED_PARAMS: Record<string, string> = {
+  knn: 'kNN search ($knn, $semantic)',
+  rank: 'Reciprocal rank fusion ($knn.hybrid)',
+  retriever: 'Reciprocal rank fusion ($knn.hybrid)',
+  pit: 'Point-in-time search (params.cursor, $after, iterate())'
+}
+
+/**
+ * Client methods which OpenSearch does not have, or has with a different API
+ */
+const OPENSEARCH_UNSUPPORTED_METHODS: Record<string, string> = {
+  openPointInTime: 'Point-in-time search (params.cursor, $after, iterate())',
+  closePointInTime: 'Point-in-time search (params.cursor, $after, iterate())'
+}
+
+/**
+ * Gets the distribution of a cluster from the `version` of its `info()` response
+ * @param version - Version information, only OpenSearch reports a `distribution`
+ */
+export function getDistribution(version?: { distribution?: string }): Distribution {
+  return version?.distribution === 'opensearch' ? 'opensearch' : 'elasticsearch'
+}
+
+/**
+ * Gets the supported versions of a distribution
+ * @param distribution - Search engine of the cluster
+ */
+export function getSupportedVersions(distribution: Distribution = 'elasticsearch'): string[] {
+  return distribution === 'opensearch' ? SUPPORTED_OPENSEARCH_VERSIONS : SUPPORTED_ES_VERSIONS
+}
+
+/**
+ * Checks a version reported by the cluster against `SUPPORTED_ES_VERSIONS`, or `SUPPORTED_OPENSEARCH_VERSIONS`
+ * @param version - Version number from `info()`
+ * @param distribution - Search engine of the cluster
+ * @returns The version
+ * @throws GeneralError if the version is not supported
+ */
+export function validateVersion(version: string, distribution: Distribution = 'elasticsearch'): string {
+  const supportedVersions = getSupportedVersions(distribution)
+
+  if (!isSupportedVersion(version, supportedVersions)) {
+    throw new errors.GeneralError(
+      `${distribution === 'opensearch' ? 'OpenSearch' : 'Elasticsearch'} ${version} is not supported, ` +
+        `supported versions are ${supportedVersions.join(', ')}`
+    )
+  }
+
+  return version
+}
+
+/**
+ * Gets the body of a response. Clients before 8.0, the OpenSearch client and the 8.x client with `meta: true`
+ * resolve to `{ body, statusCode, headers, meta }`.
+ * @param response - Client response
+ * @returns The response body
+ */
+export function getResponseBody<T = Record<string, unknown>>(response: unknown): T {
+  if (response && typeof response === 'object' && 'body' in response && 'statusCode' in response) {
+    return (response as { body: T }).body
+  }
+
+  return response as T
+}
+
+/**
+ * Rejects requests using features which OpenSearch does not have
+ * @param method - Client method
+ * @param params - Request parameters in the shape of the 8.x client
+ * @throws NotImplemented if the request uses such a feature
+ */
+export function validateOpenSearchRequest(method: string, params: Request = {}): void {
+  const feature =
+    OPENSEARCH_UNSUPPORTED_METHODS[method] ||
+    Object.keys(OPENSEARCH_UNSUPPORTED_PARAMS)
+      .filter((name) => params[name] !== undefined)
+      .map((name) => OPENSEARCH_UNSUPPORTED_PARAMS[name])[0] ||
+    (JSON.stringify(params.query || {}).includes('"combined_fields":') &&
+      'combined_fields queries ($search, $multiMatch)')
+
+  if (feature) {
+    throw new errors.NotImplemented(`${feature} is not supported by OpenSearch`)
+  }
+}
+
+/**
+ * Adds the document type to the action lines of bulk operations
+ */
+function addBulkType(operations: unknown, type: string): unknown {
+  if (!Array.isArray(operations)) {
+    return operations
+  }
+
+  let isAction = true
+
+  return operations.map((line: Request) => {
+    if (!isAction) {
+      isAction = true
+      return line
+    }
+
+    const action = BULK_ACTIONS.find((name) => name in line)
+    // Every action but delete is followed by a document line
+    isAction = action === 'delete'
+
+    return action ? { [action]: { _type: type, ...(line[action] as Request) } } : line
+  })
+}
+
+/**
+ * Converts a request in the shape of the 8.x client to the shape of an Elasticsearch version:
+ * documents are addressed by type before 7.0, bodies are sent in `body` before 8.0
+ * and `track_total_hits` is only sent to versions which count hits up to it.
+ * @param method - Client method, e.g. `search` or `indices.create`
+ * @param params - Request parameters
+ * @param esVersion - Elasticsearch version
+ * @returns Request parameters for the version
+ */
+export function getCompatRequest(method: string, params: Request = {}, esVersion: string): Request {
+  const request = { ...params }
+  const type = getCompatProp(ES_TYPE_REQUIREMENTS, esVersion)
+
+  if (type && TYPED_METHODS.includes(method) && request.type === undefined) {
+    request.type = type
+  }
+
+  if (type && method === 'bulk') {
+    if (request.operations) {
+      request.operations = addBulkType(request.operations, type)
+    } else {
+      request.body = addBulkType(request.body, type)
+    }
+  }
+
+  if (method === 'search' && getCompatProp(ES_TOTAL_HITS, esVersion) === 'number') {
+    delete request.track_total_hits
+    if (request.body && typeof request.body === 'object') {
+      request.body = { ...(request.body as Request) }
+      delete (request.body as Request).track_total_hits
+    }
+  }
+
+  if (!getCompatProp(ES_REQUEST_BODY, esVersion)) {
+    return request
+  }
+
+  const wholeBody = WHOLE_BODY_PARAMS[method]
+  if (wholeBody && request[wholeBody] !== undefined) {
+    request.body = request[wholeBody]
+    delete request[wholeBody]
+  }
+
+  const bodyParams = (BODY_PARAMS[method] || []).filter((name) => request[name] !== undefined)
+  if (bodyParams.length) {
+    request.body = bodyParams.reduce(
+      (body: Request, name) => {
+        body[name] = request[name]
+        delete request[name]
+        return body
+      },
+      { ...(request.body as Request | undefined) }
+    )
+  }
+
+  return request
+}
+
+/**
+ * Wraps the methods of an Elasticsearch client, and of its namespaces like `indices`,
+ * so they take requests in the shape of the 8.x client (see `getCompatRequest`).
+ * The responses of an OpenSearch client are unwrapped from their `body`, and requests using features
+ * which OpenSearch does not have are rejected.
+ * @param esClient - Elasticsearch or OpenSearch client
+ * @param esVersion - Elasticsearch version of the cluster (`OPENSEARCH_ES_VERSION` for OpenSearch)
+ * @param distribution - Search engine of the cluster
+ * @param path - Namespace of the wrapped object, e.g. `indices.`
+ * @returns Wrapped client, or the client itself if the version takes requests as they are
+ */
+export function createCompatWrapper(
+  esClient: Record<string, unknown>,
+  esVersion: string,
+  distribution: Distribution = 'elasticsearch',
+  path = ''
+): Record<string, unknown> {
+  const opensearch = distribution === 'opensearch'
+
+  if (!path && !opensearch && !getCompatProp(ES_REQUEST_BODY, esVersion)) {
+    return esClient
+  }
+
+  return new Proxy(esClient, {
+    get(target, prop) {
+      const original = target[prop as keyof typeof target]
+
+      if (original && typeof original === 'object' && !path) {
+        return createCompatWrapper(original as Record<string, unknown>, esVersion, distribution, `${String(prop)}.`)
+      }
+
+      if (typeof original !== 'function') {
+        return original
+      }
+
+      const method = `${path}${String(prop)}`
+
+      return async (params?: Request, ...args: unknown[]) => {
+        if (opensearch) {
+          validateOpenSearchRequest(method, params)
+        }
+
+        const response = await (original as (...args: unknown[]) => Promise<unknown>).call(
+          target,
+          getCompatRequest(method, params, esVersion),
+          ...args
+        )
+
+        return opensearch ? getResponseBody(response) : response
+      }
+    }
+  })
+}
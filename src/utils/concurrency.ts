@@ -0,0 +1,112 @@
+import { errors } from '@feathersjs/errors'
+import { ElasticsearchError, ElasticsearchServiceParams, ElasticAdapterInterface } from '../types'
+
+export interface ConcurrencyParams {
+  if_seq_no?: number
+  if_primary_term?: number
+}
+
+/**
+ * Converts a sequence number or primary term to a non-negative integer
+ */
+function toInteger(value: unknown, name: string): number {
+  const number = Number(value)
+
+  if (!Number.isInteger(number) || number < 0) {
+    throw new errors.BadRequest(`${name} must be a non-negative integer`)
+  }
+
+  return number
+}
+
+/**
+ * Gets the `if_seq_no`/`if_primary_term` parameters for a conditional write.
+ * Explicit `params.ifSeqNo`/`params.ifPrimaryTerm` are always used. The `_seq_no`/`_primary_term`
+ * of the meta property in `data` are only used when the service has `optimisticConcurrency` enabled.
+ * @param service - The Elasticsearch service instance
+ * @param data - The incoming document data
+ * @param params - Service parameters
+ * @returns Conditional write parameters, empty if the write is unconditional
+ * @throws BadRequest if only one of sequence number and primary term is provided
+ */
+export function getConcurrencyParams(
+  service: ElasticAdapterInterface,
+  data: Record<string, unknown> = {},
+  params: ElasticsearchServiceParams = {}
+): ConcurrencyParams {
+  let seqNo: unknown = params.ifSeqNo
+  let primaryTerm: unknown = params.ifPrimaryTerm
+
+  if (seqNo === undefined && primaryTerm === undefined && service.optimisticConcurrency) {
+    const meta = data[service.meta] as Record<string, unknown> | undefined
+
+    seqNo = meta?._seq_no
+    primaryTerm = meta?._primary_term
+  }
+
+  if (seqNo === undefined && primaryTerm === undefined) {
+    return {}
+  }
+
+  if (seqNo === undefined || primaryTerm === undefined) {
+    throw new errors.BadRequest('Both a sequence number and a primary term are required for conditional writes')
+  }
+
+  return {
+    if_seq_no: toInteger(seqNo, 'ifSeqNo'),
+    if_primary_term: toInteger(primaryTerm, 'ifPrimaryTerm')
+  }
+}
+
+/**
+ * Checks if an error is an Elasticsearch version conflict
+ * @param error - The error to check
+ * @returns True for `version_conflict_engine_exception` and 409 responses
+ */
+export function isVersionConflict(error: ElasticsearchError): boolean {
+  return (
+    error.meta?.body?.error?.type === 'version_conflict_engine_exception' ||
+    error.meta?.statusCode === 409 ||
+    error.statusCode === 409
+  )
+}
+
+/**
+ * Converts a version conflict of a conditional write into a Feathers `Conflict`
+ * which carries the current version of the document, so the caller can re-read and retry.
+ * Other errors are re-thrown unchanged.
+ * @param service - The Elasticsearch service instance
+ * @param error - The error thrown by the write
+ * @param id - Document ID
+ * @param index - Index of the document
+ * @param routing - Optional routing value
+ */
+export async function throwConflictWithVersion(
+  service: ElasticAdapterInterface,
+  error: ElasticsearchError,
+  id: string | number,
+  index: string,
+  routing?: string
+): Promise<never> {
+  if (!isVersionConflict(error)) {
+    throw error
+  }
+
+  const current = await service.Model.get({
+    index,
+    id: String(id),
+    _source: false,
+    ...(routing !== undefined && { routing })
+  }).catch(() => undefined)
+
+  throw new errors.Conflict(`Document ${id} has been modified concurrently`, {
+    id,
+    ...(current && {
+      current: {
+        _version: current._version,
+        _seq_no: current._seq_no,
+        _primary_term: current._primary_term
+      }
+    })
+  })
+}
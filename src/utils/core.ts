@@ -1,5 +1,6 @@
 import { errors } from '@feathersjs/errors'
 import { ValidatorType, DocDescriptor, ElasticAdapterInterface } from '../types'
+import { SUPPORTED_ES_VERSIONS } from '../config/versions'
 
 /**
  * Gets the type of a value as a string
@@ -105,16 +106,19 @@ export function getCompatVersion(
   curVersion: string,
   defVersion: string = '5.0'
 ): string {
-  const curVersionNum = Number(curVersion)
-  const prevVersionsNum = allVersions
-    .map((version) => Number(version))
-    .filter((version) => version <= curVersionNum)
+  // Versions are compared by major and minor part, so 8.14 comes after 8.8
+  const toNumber = (version: string) => {
+    const [major = 0, minor = 0] = version.split('.').map(Number)
+    return major * 1000 + minor
+  }
+  const curVersionNum = toNumber(curVersion)
+  const prevVersions = allVersions.filter((version) => toNumber(version) <= curVersionNum)
 
-  if (!prevVersionsNum.length) {
+  if (!prevVersions.length) {
     return defVersion
   }
 
-  return Math.max(...prevVersionsNum).toFixed(1)
+  return prevVersions.reduce((latest, version) => (toNumber(version) > toNumber(latest) ? version : latest))
 }
 
 /**
@@ -127,6 +131,17 @@ export function getCompatProp<T>(versionMap: Record<string, T>, curVersion: stri
   return versionMap[getCompatVersion(Object.keys(versionMap), curVersion)]
 }
 
+/**
+ * Checks whether a version has the major version of one of the supported versions
+ * @param version - Version reported by the cluster, e.g. `8.15.2`
+ * @param supportedVersions - Supported versions (default: `SUPPORTED_ES_VERSIONS`)
+ */
+export function isSupportedVersion(version: string, supportedVersions: string[] = SUPPORTED_ES_VERSIONS): boolean {
+  const major = version.split('.')[0]
+
+  return !!major && supportedVersions.some((supported) => supported.split('.')[0] === major)
+}
+
 /**
  * Gets the length of a query after removing routing fields
  * @param service - The Elasticsearch service instance
@@ -0,0 +1,52 @@
+import { Buffer } from 'buffer'
+import { errors } from '@feathersjs/errors'
+import { CursorState } from '../types'
+
+/**
+ * Encodes a point-in-time id and the sort values of the last hit into an opaque cursor
+ * @param state - Cursor state
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify({ p: state.pit, a: state.after })).toString('base64url')
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`
+ * @param cursor - The opaque cursor string
+ * @returns Cursor state
+ * @throws BadRequest if the cursor is malformed
+ */
+export function decodeCursor(cursor: unknown): CursorState {
+  if (typeof cursor !== 'string' || !cursor) {
+    throw new errors.BadRequest('Invalid cursor: expected a non-empty string')
+  }
+
+  let decoded: { p?: unknown; a?: unknown }
+
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new errors.BadRequest('Invalid cursor')
+  }
+
+  if (!decoded || typeof decoded.p !== 'string' || !Array.isArray(decoded.a)) {
+    throw new errors.BadRequest('Invalid cursor')
+  }
+
+  return { pit: decoded.p, after: decoded.a }
+}
+
+/**
+ * Builds the sort for `search_after` requests, adding the `_shard_doc` tiebreaker
+ * @param sort - The `$sort` filter converted by `filterQuery`
+ * @returns Sort array ending with `_shard_doc`
+ */
+export function getCursorSort(sort: unknown): Array<Record<string, unknown> | string> {
+  const base = Array.isArray(sort) ? sort : sort ? [sort] : []
+  const hasTiebreaker = base.some(
+    (item) => item === '_shard_doc' || (typeof item === 'object' && item !== null && '_shard_doc' in item)
+  )
+
+  return hasTiebreaker ? base : [...base, { _shard_doc: 'asc' }]
+}
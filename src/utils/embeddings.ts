@@ -0,0 +1,173 @@
+import { errors } from '@feathersjs/errors'
+import { EmbeddingsOptions, KnnQuery, SemanticQuery } from '../types'
+import { validateType } from './core'
+import { UPDATE_OPERATORS } from './update-operators'
+
+const DEFAULT_BATCH_SIZE = 100
+
+/**
+ * Validates the `embeddings` service option
+ * @param embeddings - `embeddings` option
+ * @throws Error if the vector field, the source fields or the embed function are missing
+ */
+export function validateEmbeddings(embeddings: EmbeddingsOptions): void {
+  if (typeof embeddings.field !== 'string' || !embeddings.field) {
+    throw new Error('The `embeddings.field` option needs to be provided')
+  }
+
+  if (!Array.isArray(embeddings.sourceFields) || !embeddings.sourceFields.length) {
+    throw new Error('The `embeddings.sourceFields` option needs to list at least one field')
+  }
+
+  if (typeof embeddings.embed !== 'function') {
+    throw new Error('The `embeddings.embed` option needs to be a function')
+  }
+
+  if (embeddings.batchSize !== undefined && (!Number.isInteger(embeddings.batchSize) || embeddings.batchSize < 1)) {
+    throw new Error('The `embeddings.batchSize` option needs to be a positive integer')
+  }
+}
+
+/**
+ * Gets the top-level properties holding the source fields, e.g. `author` for `author.name`
+ * @param sourceFields - Embedded fields
+ */
+export function getSourceRoots(sourceFields: string[]): string[] {
+  return [...new Set(sourceFields.map((field) => field.split('.')[0]))]
+}
+
+/**
+ * Gets the text to embed of a document: the values of the source fields, one per line
+ * @param doc - Document
+ * @param sourceFields - Embedded fields, with dots for nested properties
+ * @returns Text of the document, empty if it has none
+ */
+export function getEmbeddingText(doc: Record<string, unknown>, sourceFields: string[]): string {
+  return sourceFields
+    .flatMap((field) => {
+      const value = field
+        .split('.')
+        .reduce((current: unknown, key) => (current as Record<string, unknown> | undefined)?.[key], doc)
+
+      return Array.isArray(value) ? value : [value]
+    })
+    .filter((value) => value !== undefined && value !== null && value !== '')
+    .map(String)
+    .join('\n')
+}
+
+/**
+ * Checks whether patch data changes the text of a document
+ * @param data - Patch data
+ * @param sourceFields - Embedded fields
+ * @returns Whether the embedding has to be computed again
+ * @throws BadRequest if an update operator changes a source field, as the new text is not known
+ */
+export function changesSourceFields(data: Record<string, unknown>, sourceFields: string[]): boolean {
+  const roots = getSourceRoots(sourceFields)
+
+  UPDATE_OPERATORS.forEach((operator) => {
+    const field = Object.keys((data[operator] || {}) as Record<string, unknown>).find((key) =>
+      roots.includes(key.split('.')[0])
+    )
+
+    if (field) {
+      throw new errors.BadRequest(`'${operator}' can not change the embedded field '${field}'`)
+    }
+  })
+
+  return roots.some((root) => root in data)
+}
+
+/**
+ * Checks whether patch data has all source fields, so the text does not depend on the stored document
+ * @param data - Patch data
+ * @param sourceFields - Embedded fields
+ */
+export function hasAllSourceFields(data: Record<string, unknown>, sourceFields: string[]): boolean {
+  return getSourceRoots(sourceFields).every((root) => root in data)
+}
+
+/**
+ * Computes the embeddings of texts, in batches of `batchSize` texts per call of the embed function
+ * @param embeddings - `embeddings` option
+ * @param texts - Texts to embed
+ * @returns One vector per text, null for empty texts
+ * @throws GeneralError if the embed function does not return one vector per text
+ */
+export async function embedTexts(embeddings: EmbeddingsOptions, texts: string[]): Promise<(number[] | null)[]> {
+  const vectors: (number[] | null)[] = texts.map(() => null)
+  // Empty texts are not embedded, their documents have no vector
+  const positions = texts.map((text, position) => (text ? position : -1)).filter((position) => position >= 0)
+  const batchSize = embeddings.batchSize || DEFAULT_BATCH_SIZE
+
+  for (let start = 0; start < positions.length; start += batchSize) {
+    const batch = positions.slice(start, start + batchSize)
+    const result = await embeddings.embed(batch.map((position) => texts[position]))
+
+    if (!Array.isArray(result) || result.length !== batch.length || !result.every(Array.isArray)) {
+      throw new errors.GeneralError(
+        `The embed function returned ${Array.isArray(result) ? result.length : 'no'} vectors for ${batch.length} texts`
+      )
+    }
+
+    batch.forEach((position, index) => {
+      vectors[position] = result[index]
+    })
+  }
+
+  return vectors
+}
+
+/**
+ * Adds the embeddings of their text to documents
+ * @param embeddings - `embeddings` option, documents are returned as they are without it
+ * @param docs - Documents to store
+ * @param sources - Documents to take the text from (default: the documents themselves)
+ * @returns Documents with the vector field, null if they have no text
+ */
+export async function addEmbeddings(
+  embeddings: EmbeddingsOptions | undefined,
+  docs: Record<string, unknown>[],
+  sources: Record<string, unknown>[] = docs
+): Promise<Record<string, unknown>[]> {
+  if (!embeddings) {
+    return docs
+  }
+
+  const vectors = await embedTexts(
+    embeddings,
+    sources.map((source) => getEmbeddingText(source, embeddings.sourceFields))
+  )
+
+  return docs.map((doc, index) => ({ ...doc, [embeddings.field]: vectors[index] }))
+}
+
+/**
+ * Turns a `$semantic` query into the kNN search of its embedding
+ * @param value - The `$semantic` filter, a text or `{ query, k, num_candidates, similarity, hybrid }`
+ * @param embeddings - `embeddings` option
+ * @returns The `$knn` filter
+ * @throws BadRequest if the service has no embeddings or the query has no text
+ */
+export async function getSemanticKnn(value: unknown, embeddings?: EmbeddingsOptions): Promise<KnnQuery> {
+  if (!embeddings) {
+    throw new errors.BadRequest('$semantic needs the embeddings option of the service')
+  }
+
+  const semantic = (typeof value === 'string' ? { query: value } : value) as SemanticQuery
+
+  validateType(semantic, '$semantic', 'object')
+
+  const { query, ...options } = semantic
+
+  validateType(query, '$semantic.query', 'string')
+
+  if (!query.trim()) {
+    throw new errors.BadRequest(`'$semantic.query' can not be empty`)
+  }
+
+  const [vector] = await embedTexts(embeddings, [query])
+
+  return { ...options, field: embeddings.field, query_vector: vector as number[] }
+}
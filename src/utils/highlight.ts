@@ -0,0 +1,98 @@
+import { errors } from '@feathersjs/errors'
+import { validateType } from './core'
+
+type HighlightConfig = Record<string, unknown>
+
+/**
+ * Highlight options which can be requested, `highlight_query` and scripts are not allowed
+ */
+const FIELD_OPTIONS = ['type', 'fragment_size', 'number_of_fragments', 'no_match_size', 'order', 'require_field_match']
+const HIGHLIGHT_OPTIONS = [...FIELD_OPTIONS, 'fields', 'pre_tags', 'post_tags']
+
+/**
+ * Tags which can wrap highlighted terms, optionally with a CSS class
+ */
+const PRE_TAG = /^<(em|strong|mark|b|i|u|span)( class="[\w -]*")?>$/
+const POST_TAG = /^<\/(em|strong|mark|b|i|u|span)>$/
+
+function validateOptions(config: HighlightConfig, allowed: string[], path: string) {
+  validateType(config, path, 'object')
+
+  Object.keys(config).forEach((key) => {
+    if (!allowed.includes(key)) {
+      throw new errors.BadRequest(`Invalid highlight option '${path}.${key}'`)
+    }
+  })
+  ;['fragment_size', 'number_of_fragments', 'no_match_size'].forEach((key) => {
+    if (config[key] !== undefined && (!Number.isInteger(config[key]) || (config[key] as number) < 0)) {
+      throw new errors.BadRequest(`Invalid value for '${path}.${key}': expected a non-negative integer`)
+    }
+  })
+}
+
+function validateTags(tags: unknown, pattern: RegExp, path: string): string[] {
+  validateType(tags, path, 'array')
+
+  const list = tags as unknown[]
+
+  list.forEach((tag) => {
+    if (typeof tag !== 'string' || !pattern.test(tag)) {
+      throw new errors.BadRequest(`Invalid highlight tag in '${path}': ${String(tag)}`)
+    }
+  })
+
+  return list as string[]
+}
+
+/**
+ * Builds the highlight request from the `$highlight` filter.
+ * The filter is a field, a list of fields or a highlight configuration like the Elasticsearch one
+ * (`fields`, `pre_tags`, `post_tags`, `fragment_size`, `number_of_fragments`, ...).
+ * Tags are limited to simple formatting elements and the highlighted text is HTML encoded,
+ * so neither the request nor the documents can inject markup.
+ * @param value - The `$highlight` filter
+ * @returns Highlight request or undefined if no highlighting was requested
+ * @throws BadRequest if an option or tag is not allowed
+ */
+export function getHighlight(value: unknown): HighlightConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  const config = (
+    Array.isArray(value) ? { fields: value } : typeof value === 'string' ? { fields: [value] } : value
+  ) as HighlightConfig
+
+  validateOptions(config, HIGHLIGHT_OPTIONS, '$highlight')
+
+  const fields = config.fields
+  const fieldConfigs = (Array.isArray(fields) ? {} : fields) as Record<string, HighlightConfig>
+  const names = Array.isArray(fields) ? fields : fields && typeof fields === 'object' ? Object.keys(fields) : []
+
+  if (!names.length || names.some((name) => typeof name !== 'string' || !name)) {
+    throw new errors.BadRequest("'$highlight.fields' must name at least one field")
+  }
+
+  const highlight: HighlightConfig = {
+    ...config,
+    fields: names.reduce((result: Record<string, HighlightConfig>, name: string) => {
+      const fieldConfig = fieldConfigs[name] || {}
+
+      validateOptions(fieldConfig, FIELD_OPTIONS, `$highlight.fields.${name}`)
+      result[name] = fieldConfig
+
+      return result
+    }, {}),
+    encoder: 'html'
+  }
+
+  if (config.pre_tags !== undefined) {
+    highlight.pre_tags = validateTags(config.pre_tags, PRE_TAG, '$highlight.pre_tags')
+  }
+
+  if (config.post_tags !== undefined) {
+    highlight.post_tags = validateTags(config.post_tags, POST_TAG, '$highlight.post_tags')
+  }
+
+  return highlight
+}
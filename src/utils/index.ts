@@ -1,21 +1,37 @@
 'use strict'
 
 import { removeProps } from './core'
-import type { ESSearchResponse, ESHit, ESBulkResponseItem } from '../types'
+import { normalizeAggregations } from './aggregations'
+import { getResponseBody } from './compat'
+import type { ESSearchResponse, ESHit, ESBulkResponseItem, PaginatedResult } from '../types'
 
 export * from './core'
 export * from './parse-query'
 export * from './params'
+export * from './aggregations'
+export * from './cursor'
+export * from './concurrency'
+export * from './update-operators'
+export * from './bulk'
+export * from './mappings'
+export * from './schema-mappings'
+export * from './query-mapping'
+export * from './operators'
+export * from './highlight'
+export * from './knn'
+export * from './embeddings'
 export type { ESSearchResponse, ESHit, ESBulkResponseItem } from '../types'
 
 /**
  * Maps Elasticsearch find results to Feathers format
- * @param results - Raw Elasticsearch search response
+ * @param results - Raw Elasticsearch search response, also in a `body` (OpenSearch)
  * @param idProp - Property name for document ID
  * @param metaProp - Property name for metadata
  * @param joinProp - Property name for join field
  * @param filters - Query filters
  * @param hasPagination - Whether pagination is enabled
+ * @param aggs - Requested aggregation definitions, used to normalize `aggregations`
+ * @param highlightProp - Property name for highlight fragments (default: `highlight` in the metadata)
  * @returns Formatted results (array or paginated object)
  */
 export function mapFind<T = Record<string, unknown>>(
@@ -24,19 +40,28 @@ export function mapFind<T = Record<string, unknown>>(
   metaProp: string,
   joinProp?: string,
   filters?: Record<string, unknown>,
-  hasPagination?: boolean
-): T[] | { total: number; skip: number; limit: number; data: T[] } {
-  const data = results.hits.hits.map((result) => mapGet(result, idProp, metaProp, joinProp))
+  hasPagination?: boolean,
+  aggs?: Record<string, Record<string, unknown>>,
+  highlightProp?: string
+): T[] | PaginatedResult<T> {
+  const response = getResponseBody<ESSearchResponse<T>>(results)
+  const data = response.hits.hits.map((result) => mapItem(result, idProp, metaProp, joinProp, highlightProp))
 
   if (hasPagination) {
-    const total = typeof results.hits.total === 'object' ? results.hits.total.value : results.hits.total
-
-    return {
+    // Before 7.0 (and with `rest_total_hits_as_int`) the total is a number
+    const total = typeof response.hits.total === 'object' ? response.hits.total.value : response.hits.total
+    const paginated: PaginatedResult<T> = {
       total,
       skip: (filters?.$skip as number) || 0,
       limit: (filters?.$limit as number) || 0,
       data
     }
+
+    if (response.aggregations) {
+      paginated.aggregations = normalizeAggregations(response.aggregations, aggs)
+    }
+
+    return paginated
   }
 
   return data
@@ -44,7 +69,7 @@ export function mapFind<T = Record<string, unknown>>(
 
 /**
  * Maps a single Elasticsearch document to Feathers format
- * @param item - Raw Elasticsearch hit
+ * @param item - Raw Elasticsearch hit, also in a `body` (OpenSearch)
  * @param idProp - Property name for document ID
  * @param metaProp - Property name for metadata
  * @param joinProp - Property name for join field
@@ -56,7 +81,7 @@ export function mapGet<T = Record<string, unknown>>(
   metaProp: string,
   joinProp?: string
 ): T & Record<string, unknown> {
-  return mapItem(item, idProp, metaProp, joinProp)
+  return mapItem(getResponseBody<ESHit<T>>(item), idProp, metaProp, joinProp)
 }
 
 /**
@@ -83,19 +108,21 @@ export function mapPatch<T = Record<string, unknown>>(
 
 /**
  * Maps bulk operation results to Feathers format
- * @param items - Array of bulk operation responses
+ * @param items - Array of bulk operation responses, or the bulk response, also in a `body` (OpenSearch)
  * @param idProp - Property name for document ID
  * @param metaProp - Property name for metadata
  * @param joinProp - Property name for join field
  * @returns Array of formatted documents
  */
 export function mapBulk<T = Record<string, unknown>>(
-  items: ESBulkResponseItem[],
+  items: ESBulkResponseItem[] | { items: ESBulkResponseItem[] },
   idProp: string,
   metaProp: string,
   joinProp?: string
 ): Array<T & Record<string, unknown>> {
-  return items.map((item) => {
+  const bulkItems = Array.isArray(items) ? items : getResponseBody<{ items: ESBulkResponseItem[] }>(items).items
+
+  return bulkItems.map((item) => {
     if (item.update) {
       return mapPatch(item.update as unknown as Record<string, unknown>, idProp, metaProp, joinProp)
     }
@@ -114,13 +141,15 @@ export function mapBulk<T = Record<string, unknown>>(
  * @param idProp - Property name for document ID
  * @param metaProp - Property name for metadata
  * @param joinProp - Property name for join field
+ * @param highlightProp - Property name for highlight fragments (default: `highlight` in the metadata)
  * @returns Formatted document
  */
 export function mapItem<T = Record<string, unknown>>(
   item: ESHit<T> | Record<string, unknown>,
   idProp: string,
   metaProp: string,
-  joinProp?: string
+  joinProp?: string,
+  highlightProp?: string
 ): T & Record<string, unknown> {
   const meta = removeProps(item as Record<string, unknown>, '_source')
   const itemWithSource = item as { _source?: unknown }
@@ -138,5 +167,10 @@ export function mapItem<T = Record<string, unknown>>(
     result[joinProp] = joinValue.name
   }
 
+  if (highlightProp && meta.highlight) {
+    result[highlightProp] = meta.highlight
+    delete meta.highlight
+  }
+
   return result as T & Record<string, unknown>
 }
@@ -0,0 +1,216 @@
+import { errors } from '@feathersjs/errors'
+import { DEFAULT_ES_VERSION, ES_RRF_SYNTAX } from '../config/versions'
+import { ESQuery, HybridOptions, KnnQuery } from '../types'
+import { getCompatProp, validateType } from './core'
+
+type KnnRequest = Record<string, unknown>
+
+const KNN_OPTIONS = ['field', 'query_vector', 'k', 'num_candidates', 'similarity', 'hybrid']
+const HYBRID_OPTIONS = ['method', 'rank_constant', 'rank_window_size', 'query_weight', 'knn_weight']
+const HYBRID_METHODS = ['rrf', 'weighted']
+
+/**
+ * Upper limit of `num_candidates` in Elasticsearch
+ */
+const MAX_CANDIDATES = 10000
+
+function validateOptions(value: Record<string, unknown>, allowed: string[], path: string) {
+  validateType(value, path, 'object')
+
+  Object.keys(value).forEach((key) => {
+    if (!allowed.includes(key)) {
+      throw new errors.BadRequest(`Invalid option '${path}.${key}'`)
+    }
+  })
+}
+
+function validatePositiveInteger(value: unknown, path: string, max = Infinity): number {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > max) {
+    throw new errors.BadRequest(
+      `Invalid value for '${path}': expected a positive integer${max < Infinity ? ` up to ${max}` : ''}`
+    )
+  }
+
+  return value as number
+}
+
+function validateWeight(value: unknown, path: string): number {
+  if (value === undefined) {
+    return 1
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new errors.BadRequest(`Invalid value for '${path}': expected a non-negative number`)
+  }
+
+  return value
+}
+
+/**
+ * Gets the hybrid ranking options of a `$knn` filter
+ */
+function getHybridOptions(value: KnnQuery): HybridOptions | undefined {
+  if (value.hybrid === undefined) {
+    return undefined
+  }
+
+  const hybrid = (typeof value.hybrid === 'string' ? { method: value.hybrid } : value.hybrid) as HybridOptions
+
+  validateOptions(hybrid as never, HYBRID_OPTIONS, '$knn.hybrid')
+
+  if (!HYBRID_METHODS.includes(hybrid.method)) {
+    throw new errors.BadRequest(`Invalid value for '$knn.hybrid.method': expected 'rrf' or 'weighted'`)
+  }
+
+  return hybrid
+}
+
+/**
+ * Gets the dimensions of the `dense_vector` fields of index mappings
+ * @param mappings - Index mappings (the `mappings` service option)
+ * @param prefix - Path of the parent object
+ * @returns Dimensions by field path, undefined for fields whose dimensions are set by the first document
+ */
+export function getVectorFields(mappings?: Record<string, unknown>, prefix = ''): Record<string, number> {
+  const properties = (mappings?.properties || {}) as Record<string, Record<string, unknown>>
+
+  return Object.entries(properties).reduce((fields: Record<string, number>, [name, field]) => {
+    if (field.type === 'dense_vector') {
+      fields[`${prefix}${name}`] = field.dims as number
+    } else if (field.properties) {
+      Object.assign(fields, getVectorFields(field, `${prefix}${name}.`))
+    }
+
+    return fields
+  }, {})
+}
+
+/**
+ * Checks whether a `$knn` filter ranks with reciprocal rank fusion, whose results can not be sorted
+ * @param value - The `$knn` filter
+ */
+export function usesRankFusion(value: unknown): boolean {
+  const hybrid = (value as KnnQuery | undefined)?.hybrid
+
+  return hybrid === 'rrf' || (typeof hybrid === 'object' && hybrid?.method === 'rrf')
+}
+
+/**
+ * Builds the kNN part of a search request from the `$knn` filter.
+ * Without `hybrid`, the documents are found by vector similarity and the other operators of the query
+ * only filter them. With `hybrid`, the bool query and the kNN search are both ranked and combined,
+ * by reciprocal rank fusion (`rrf`) or by the sum of their weighted scores (`weighted`);
+ * the filter clauses of the query apply to both.
+ * @param value - The `$knn` filter
+ * @param esQuery - Bool query of the other operators (from `parseQuery`)
+ * @param options - Dimensions of the vector fields (empty = not checked) and the Elasticsearch version
+ * @returns `knn`, `query`, `rank` or `retriever` of the search request, or undefined without `$knn`
+ * @throws BadRequest if an option is invalid or the vector does not match the field
+ */
+export function getKnnRequest(
+  value: unknown,
+  esQuery: ESQuery | null,
+  options: { vectorFields?: Record<string, number>; esVersion?: string } = {}
+): KnnRequest | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  const knn = value as KnnQuery
+  const vectorFields = options.vectorFields || {}
+
+  validateOptions(knn as never, KNN_OPTIONS, '$knn')
+  validateType(knn.field, '$knn.field', 'string')
+  validateType(knn.query_vector, '$knn.query_vector', 'array')
+
+  if (Object.keys(vectorFields).length && !(knn.field in vectorFields)) {
+    throw new errors.BadRequest(`Field '${knn.field}' is not a vector field`)
+  }
+
+  if (!knn.query_vector.length || knn.query_vector.some((item) => typeof item !== 'number' || !Number.isFinite(item))) {
+    throw new errors.BadRequest(`'$knn.query_vector' must be a non-empty list of numbers`)
+  }
+
+  const dims = vectorFields[knn.field]
+  if (dims !== undefined && knn.query_vector.length !== dims) {
+    throw new errors.BadRequest(
+      `'$knn.query_vector' has ${knn.query_vector.length} dimensions, field '${knn.field}' has ${dims}`
+    )
+  }
+
+  const k = knn.k === undefined ? 10 : validatePositiveInteger(knn.k, '$knn.k', MAX_CANDIDATES)
+  const numCandidates =
+    knn.num_candidates === undefined
+      ? Math.min(k * 10, MAX_CANDIDATES)
+      : validatePositiveInteger(knn.num_candidates, '$knn.num_candidates', MAX_CANDIDATES)
+
+  if (numCandidates < k) {
+    throw new errors.BadRequest(`'$knn.num_candidates' can not be less than '$knn.k'`)
+  }
+
+  if (knn.similarity !== undefined) {
+    validateType(knn.similarity, '$knn.similarity', 'number')
+  }
+
+  const hybrid = getHybridOptions(knn)
+  // Only the filter clauses of a hybrid query restrict the vector search, its scoring clauses rank on their own
+  const filterQuery: ESQuery | null = hybrid
+    ? {
+        ...(esQuery?.filter && { filter: esQuery.filter }),
+        ...(esQuery?.must_not && { must_not: esQuery.must_not })
+      }
+    : esQuery
+  const filter = filterQuery && Object.keys(filterQuery).length ? { bool: filterQuery } : undefined
+
+  const knnQuery: Record<string, unknown> = {
+    field: knn.field,
+    query_vector: knn.query_vector,
+    k,
+    num_candidates: numCandidates,
+    ...(knn.similarity !== undefined && { similarity: knn.similarity }),
+    ...(filter && { filter })
+  }
+
+  if (!hybrid) {
+    return { knn: knnQuery }
+  }
+
+  if (!esQuery) {
+    throw new errors.BadRequest(`'$knn.hybrid' needs query operators to combine the vector search with`)
+  }
+
+  if (hybrid.method === 'weighted') {
+    return {
+      query: { bool: { ...esQuery, boost: validateWeight(hybrid.query_weight, '$knn.hybrid.query_weight') } },
+      knn: { ...knnQuery, boost: validateWeight(hybrid.knn_weight, '$knn.hybrid.knn_weight') }
+    }
+  }
+
+  const rankConstant =
+    hybrid.rank_constant === undefined ? 60 : validatePositiveInteger(hybrid.rank_constant, '$knn.hybrid.rank_constant')
+  const rankWindowSize =
+    hybrid.rank_window_size === undefined
+      ? 100
+      : validatePositiveInteger(hybrid.rank_window_size, '$knn.hybrid.rank_window_size', MAX_CANDIDATES)
+
+  switch (getCompatProp(ES_RRF_SYNTAX, options.esVersion || DEFAULT_ES_VERSION)) {
+    case 'rank':
+      return {
+        query: { bool: esQuery },
+        knn: knnQuery,
+        rank: { rrf: { rank_constant: rankConstant, window_size: rankWindowSize } }
+      }
+    case 'retriever':
+      return {
+        retriever: {
+          rrf: {
+            retrievers: [{ standard: { query: { bool: esQuery } } }, { knn: knnQuery }],
+            rank_constant: rankConstant,
+            rank_window_size: rankWindowSize
+          }
+        }
+      }
+    default:
+      throw new errors.BadRequest('Reciprocal rank fusion needs Elasticsearch 8.8 or later')
+  }
+}
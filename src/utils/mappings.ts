@@ -0,0 +1,122 @@
+import { ES_MAPPING_PATHS, ES_TYPE_REQUIREMENTS, DEFAULT_ES_VERSION } from '../config/versions'
+import { MappingConflict, MappingDiff } from '../types'
+import { getCompatProp } from './core'
+
+type Properties = Record<string, Record<string, unknown>>
+
+/**
+ * Mapping parameters which hold nested field definitions instead of a value
+ */
+const NESTED_KEYS = ['properties', 'fields']
+
+/**
+ * Gets the field properties of an index entry of a get mapping response
+ * @param entry - Mapping of a single index, e.g. `{ mappings: { properties: {...} } }`
+ * @param esVersion - Elasticsearch version
+ * @returns Field properties, empty if the index has no mapped fields
+ */
+export function getMappingProperties(
+  entry: Record<string, unknown>,
+  esVersion: string = DEFAULT_ES_VERSION
+): Properties {
+  const path = getCompatProp(ES_MAPPING_PATHS, esVersion)
+  const properties = path.reduce(
+    (value: unknown, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    entry
+  )
+
+  return (properties as Properties) || {}
+}
+
+/**
+ * Builds the create index request body for the declared settings, mappings and aliases
+ * @param options - Declared index configuration
+ * @param esVersion - Elasticsearch version, versions requiring a mapping type get it wrapped in
+ * @returns Request body
+ */
+export function getIndexBody(
+  options: {
+    settings?: Record<string, unknown>
+    mappings?: Record<string, unknown>
+    aliases?: Record<string, unknown>
+  },
+  esVersion: string = DEFAULT_ES_VERSION
+): Record<string, unknown> {
+  const type = getCompatProp(ES_TYPE_REQUIREMENTS, esVersion)
+  const body: Record<string, unknown> = {}
+
+  if (options.settings) {
+    body.settings = options.settings
+  }
+
+  if (options.mappings) {
+    body.mappings = type ? { [type]: options.mappings } : options.mappings
+  }
+
+  if (options.aliases) {
+    body.aliases = options.aliases
+  }
+
+  return body
+}
+
+/**
+ * Gets the type of a field definition, objects can be declared by their properties only
+ */
+function getFieldType(field: Record<string, unknown>): unknown {
+  return field.type ?? (field.properties ? 'object' : undefined)
+}
+
+/**
+ * Compares declared field properties with live ones and collects the differences
+ */
+function diffProperties(declared: Properties, live: Properties, prefix: string, diff: MappingDiff) {
+  Object.entries(declared).forEach(([name, field]) => {
+    const path = `${prefix}${name}`
+    const current = live[name]
+
+    if (!current) {
+      diff.added.push(path)
+      return
+    }
+
+    const declaredType = getFieldType(field)
+    const liveType = getFieldType(current)
+
+    if (declaredType !== liveType) {
+      diff.conflicts.push({ field: path, parameter: 'type', declared: declaredType, live: liveType })
+      return
+    }
+
+    Object.keys(field)
+      .filter((key) => key !== 'type' && !NESTED_KEYS.includes(key))
+      .forEach((key) => {
+        if (JSON.stringify(field[key]) !== JSON.stringify(current[key])) {
+          diff.conflicts.push({ field: path, parameter: key, declared: field[key], live: current[key] })
+        }
+      })
+
+    NESTED_KEYS.forEach((key) => {
+      if (field[key]) {
+        diffProperties(field[key] as Properties, (current[key] || {}) as Properties, `${path}.`, diff)
+      }
+    })
+  })
+}
+
+/**
+ * Compares declared mappings with the live mappings of an index.
+ * New fields (and multi-fields) can be added to an existing index, a changed type or
+ * parameter of an existing field is a conflict which requires a reindex.
+ * Fields which only exist in the live mappings (e.g. dynamically mapped ones) are ignored.
+ * @param declared - Declared mappings, e.g. `{ properties: { name: { type: 'keyword' } } }`
+ * @param live - Field properties of the live mappings
+ * @returns Added field paths and conflicts
+ */
+export function diffMappings(declared: Record<string, unknown>, live: Properties): MappingDiff {
+  const diff: MappingDiff = { added: [], conflicts: [] as MappingConflict[] }
+
+  diffProperties((declared.properties || {}) as Properties, live, '', diff)
+
+  return diff
+}
@@ -0,0 +1,57 @@
+import { CustomOperator, CustomOperators } from '../types'
+
+const OPERATOR_KINDS = ['criteria', 'special']
+const OPERATOR_SECTIONS = ['must', 'filter', 'should', 'must_not']
+
+/**
+ * Validates the custom operators of the `operators` option.
+ * The Feathers form of the option, a list of additional operator names, has no custom operators.
+ * @param operators - `operators` option
+ * @param reserved - Names of the built-in filters and operators, which can not be replaced
+ * @returns Custom operators by name
+ * @throws Error if an operator is invalid or replaces a built-in one
+ */
+export function getCustomOperators(
+  operators: string[] | CustomOperators | undefined,
+  reserved: string[]
+): CustomOperators {
+  if (!operators || Array.isArray(operators)) {
+    return {}
+  }
+
+  Object.entries(operators).forEach(([name, operator]: [string, CustomOperator]) => {
+    if (!name.startsWith('$')) {
+      throw new Error(`Custom operator ${name} has to start with $`)
+    }
+
+    if (reserved.includes(name)) {
+      throw new Error(`Custom operator ${name} can not replace a built-in operator`)
+    }
+
+    if (!operator || !OPERATOR_KINDS.includes(operator.kind) || typeof operator.compile !== 'function') {
+      throw new Error(`Custom operator ${name} needs a kind ('criteria' or 'special') and a compile function`)
+    }
+
+    if (operator.section !== undefined && !OPERATOR_SECTIONS.includes(operator.section)) {
+      throw new Error(`Custom operator ${name} has an invalid section ${operator.section}`)
+    }
+
+    if (operator.cacheable !== undefined && typeof operator.cacheable !== 'boolean') {
+      throw new Error(`Custom operator ${name} needs a boolean cacheable flag`)
+    }
+  })
+
+  return operators
+}
+
+/**
+ * Gets the query complexity weights of custom operators
+ * @param operators - Custom operators by name
+ * @returns Complexity weight by operator name
+ */
+export function getOperatorWeights(operators: CustomOperators = {}): Record<string, number> {
+  return Object.keys(operators).reduce((weights: Record<string, number>, name) => {
+    weights[name] = operators[name].complexity || 0
+    return weights
+  }, {})
+}
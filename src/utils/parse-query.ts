@@ -1,6 +1,6 @@
 'use strict'
 
-import { ESQuery } from '../types'
+import { CustomOperator, CustomOperators, ESQuery, OperatorContext } from '../types'
 import { getType, validateType } from './core'
 import { errors } from '@feathersjs/errors'
 import { $or, $and, $all, $sqs, $nested, $childOr$parent, $existsOr$missing } from './query-handlers/special'
@@ -45,16 +45,57 @@ function normalizeObject(obj: unknown): unknown {
   return sorted
 }
 
+// Custom operator sets get an id, so services with different operators do not share cached queries
+const operatorSetIds = new WeakMap<CustomOperators, number>()
+let nextOperatorSetId = 1
+
+function getOperatorSetId(operators: CustomOperators): number {
+  if (!Object.keys(operators).length) {
+    return 0
+  }
+
+  if (!operatorSetIds.has(operators)) {
+    operatorSetIds.set(operators, nextOperatorSetId++)
+  }
+
+  return operatorSetIds.get(operators) as number
+}
+
+/**
+ * Checks if a query uses a custom operator whose compiled clauses can not be cached
+ * @param value - Query or a part of it
+ * @param operators - Custom operators of the service
+ * @returns True if a key of the query is an operator without the `cacheable` flag
+ */
+function usesUncacheableOperator(value: unknown, operators: CustomOperators): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => usesUncacheableOperator(item, operators))
+  }
+
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  return Object.entries(value).some(
+    ([key, item]) =>
+      (operators[key] !== undefined && !operators[key].cacheable) || usesUncacheableOperator(item, operators)
+  )
+}
+
 /**
  * Generate a stable hash for a query object
  * @param query - Query object to hash
  * @param idProp - ID property name
+ * @param operators - Custom operators of the service
  * @returns Hash string
  */
-function hashQuery(query: Record<string, unknown>, idProp: string): string {
+function hashQuery(query: Record<string, unknown>, idProp: string, operators: CustomOperators): string {
   // Create deterministic string representation with deep key sorting
   const normalized = JSON.stringify(normalizeObject(query))
-  return createHash('sha256').update(`${normalized}:${idProp}`).digest('hex').slice(0, 16)
+  return createHash('sha256')
+    .update(`${normalized}:${idProp}:${getOperatorSetId(operators)}`)
+    .digest('hex')
+    .slice(0, 16)
 }
 
 /**
@@ -86,7 +127,8 @@ type QueryHandler = (
   esQuery: ESQuery,
   idProp: string,
   maxDepth: number,
-  currentDepth: number
+  currentDepth: number,
+  operators: CustomOperators
 ) => ESQuery
 
 /**
@@ -97,16 +139,54 @@ const specialQueryHandlers: Record<string, QueryHandler> = {
   $and: $and as QueryHandler,
   $all: $all as QueryHandler,
   $sqs: $sqs as QueryHandler,
-  $nested: (value: unknown, esQuery: ESQuery, idProp: string, maxDepth: number, currentDepth: number) =>
-    $nested(value as never, esQuery, idProp, maxDepth, currentDepth),
+  $nested: (
+    value: unknown,
+    esQuery: ESQuery,
+    idProp: string,
+    maxDepth: number,
+    currentDepth: number,
+    operators: CustomOperators
+  ) => $nested(value as never, esQuery, idProp, maxDepth, currentDepth, operators),
   $exists: (value: unknown, esQuery: ESQuery, idProp: string, maxDepth: number, currentDepth: number) =>
     $existsOr$missing('must', value as never, esQuery, idProp, maxDepth, currentDepth),
   $missing: (value: unknown, esQuery: ESQuery, idProp: string, maxDepth: number, currentDepth: number) =>
     $existsOr$missing('must_not', value as never, esQuery, idProp, maxDepth, currentDepth),
-  $child: (value: unknown, esQuery: ESQuery, idProp: string, maxDepth: number, currentDepth: number) =>
-    $childOr$parent('$child', value as never, esQuery, idProp, maxDepth, currentDepth),
-  $parent: (value: unknown, esQuery: ESQuery, idProp: string, maxDepth: number, currentDepth: number) =>
-    $childOr$parent('$parent', value as never, esQuery, idProp, maxDepth, currentDepth)
+  $child: (
+    value: unknown,
+    esQuery: ESQuery,
+    idProp: string,
+    maxDepth: number,
+    currentDepth: number,
+    operators: CustomOperators
+  ) => $childOr$parent('$child', value as never, esQuery, idProp, maxDepth, currentDepth, operators),
+  $parent: (
+    value: unknown,
+    esQuery: ESQuery,
+    idProp: string,
+    maxDepth: number,
+    currentDepth: number,
+    operators: CustomOperators
+  ) => $childOr$parent('$parent', value as never, esQuery, idProp, maxDepth, currentDepth, operators)
+}
+
+/**
+ * Adds the clause compiled by a custom operator to its section of the bool query
+ */
+function addCustomClause(
+  esQuery: ESQuery,
+  operator: CustomOperator,
+  value: unknown,
+  context: OperatorContext
+): ESQuery {
+  const clause = operator.compile(value, context)
+
+  if (clause) {
+    const section = operator.section || 'filter'
+
+    esQuery[section] = [...(esQuery[section] || []), clause]
+  }
+
+  return esQuery
 }
 
 /**
@@ -115,13 +195,15 @@ const specialQueryHandlers: Record<string, QueryHandler> = {
  * @param idProp - The property name used as document ID
  * @param maxDepth - Maximum allowed query nesting depth (for security)
  * @param currentDepth - Current nesting depth (for recursion)
+ * @param operators - Custom operators of the service
  * @returns Parsed Elasticsearch query or null if empty
  */
 export function parseQuery(
   query?: Record<string, unknown> | null,
   idProp: string = '',
   maxDepth: number = 50,
-  currentDepth: number = 0
+  currentDepth: number = 0,
+  operators: CustomOperators = {}
 ): ESQuery | null {
   validateType(query, 'query', ['object', 'null', 'undefined'])
 
@@ -129,9 +211,12 @@ export function parseQuery(
     return null
   }
 
-  // Check content-based cache first (only for root level queries)
-  if (currentDepth === 0) {
-    const cacheKey = hashQuery(query, idProp)
+  // Check content-based cache first (only for root level queries). Custom operators may compile
+  // to different clauses for the same value, unless they are flagged as cacheable.
+  const cacheable = currentDepth === 0 && !usesUncacheableOperator(query, operators)
+
+  if (cacheable) {
+    const cacheKey = hashQuery(query, idProp, operators)
     const cached = queryCache.get(cacheKey)
 
     if (cached) {
@@ -150,6 +235,9 @@ export function parseQuery(
     cleanCache()
   }
 
+  const parse = (subQuery: Record<string, unknown>) =>
+    parseQuery(subQuery, idProp, maxDepth, currentDepth + 1, operators)
+
   const bool = Object.entries(query).reduce((result: ESQuery, [key, value]) => {
     const type = getType(value)
 
@@ -161,7 +249,11 @@ export function parseQuery(
 
     // Handle special query operators
     if (specialQueryHandlers[key]) {
-      return specialQueryHandlers[key](value, result, idProp, maxDepth, currentDepth)
+      return specialQueryHandlers[key](value, result, idProp, maxDepth, currentDepth, operators)
+    }
+
+    if (operators[key]?.kind === 'special') {
+      return addCustomClause(result, operators[key], value, { parse })
     }
 
     validateType(value, key, ['number', 'string', 'boolean', 'undefined', 'object', 'array'])
@@ -172,14 +264,20 @@ export function parseQuery(
     }
 
     // Handle criteria operators
-    return processCriteria(key, value as Record<string, unknown>, result)
+    const criteria = value as Record<string, unknown>
+
+    Object.keys(criteria)
+      .filter((criterion) => operators[criterion]?.kind === 'criteria')
+      .forEach((criterion) => addCustomClause(result, operators[criterion], criteria[criterion], { field: key, parse }))
+
+    return processCriteria(key, criteria, result)
   }, {})
 
   const queryResult = Object.keys(bool).length ? bool : null
 
   // Cache the result (only for root level queries)
-  if (currentDepth === 0) {
-    const cacheKey = hashQuery(query, idProp)
+  if (cacheable) {
+    const cacheKey = hashQuery(query, idProp, operators)
     queryCache.set(cacheKey, {
       result: queryResult,
       timestamp: Date.now()
@@ -1,4 +1,5 @@
 import { ESQuery } from '../../types'
+import { geoCriteriaHandlers } from './geo'
 
 /**
  * Map of query criteria to their Elasticsearch query paths
@@ -23,6 +24,13 @@ export const queryCriteriaMap: Record<string, string> = {
  * Processes criteria operators like $gt, $in, $match, etc.
  */
 export function processCriteria(key: string, value: Record<string, unknown>, esQuery: ESQuery): ESQuery {
+  Object.keys(value)
+    .filter((criterion) => geoCriteriaHandlers[criterion])
+    .forEach((criterion) => {
+      esQuery.filter = esQuery.filter || []
+      esQuery.filter.push(geoCriteriaHandlers[criterion](key, value[criterion] as never))
+    })
+
   Object.keys(value)
     .filter((criterion) => queryCriteriaMap[criterion])
     .forEach((criterion) => {
@@ -0,0 +1,190 @@
+import {
+  QueryClause,
+  GeoPoint,
+  GeoDistanceQuery,
+  GeoBoundingBoxQuery,
+  GeoPolygonQuery,
+  GeoShapeQuery
+} from '../../types'
+import { validateType } from '../core'
+import { errors } from '@feathersjs/errors'
+
+const GEO_SHAPE_RELATIONS = ['intersects', 'disjoint', 'within', 'contains']
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz'
+
+/**
+ * Upper limit of the points of a `$geoPolygon`
+ */
+export const MAX_POLYGON_POINTS = 1000
+
+/**
+ * Validates a geo point given as `{ lat, lon }`, `[lon, lat]`, `"lat,lon"` or a geohash
+ */
+function validateGeoPoint(value: unknown, name: string): GeoPoint {
+  const type = validateType(value, name, ['object', 'array', 'string'])
+
+  if (type === 'array') {
+    const point = value as unknown[]
+
+    if (point.length !== 2) {
+      throw new errors.BadRequest(`Invalid value for '${name}': expected [lon, lat]`)
+    }
+  } else if (type === 'object') {
+    const point = value as Record<string, unknown>
+
+    validateType(point.lat, `${name}.lat`, ['number', 'string'])
+    validateType(point.lon, `${name}.lon`, ['number', 'string'])
+  }
+
+  return value as GeoPoint
+}
+
+/**
+ * Decodes a geohash into the centre of its cell
+ */
+function decodeGeohash(geohash: string, name: string): [number, number] {
+  const lat = [-90, 90]
+  const lon = [-180, 180]
+  let even = true
+
+  for (const char of geohash.toLowerCase()) {
+    const bits = GEOHASH_ALPHABET.indexOf(char)
+
+    if (bits < 0) {
+      throw new errors.BadRequest(`Invalid value for '${name}': expected 'lat,lon' or a geohash`)
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = even ? lon : lat
+      range[(bits >> bit) & 1 ? 0 : 1] = (range[0] + range[1]) / 2
+      even = !even
+    }
+  }
+
+  return [(lon[0] + lon[1]) / 2, (lat[0] + lat[1]) / 2]
+}
+
+/**
+ * Converts a geo point to GeoJSON coordinates
+ */
+function toCoordinates(point: GeoPoint, name: string): [number, number] {
+  if (Array.isArray(point)) {
+    return [Number(point[0]), Number(point[1])]
+  }
+
+  if (typeof point === 'object') {
+    return [Number(point.lon), Number(point.lat)]
+  }
+
+  const [lat, lon] = point.split(',')
+
+  return lon === undefined ? decodeGeohash(lat.trim(), name) : [Number(lon), Number(lat)]
+}
+
+/**
+ * Handles $geoDistance - documents within a distance of a point
+ */
+export function $geoDistance(field: string, value: GeoDistanceQuery): QueryClause {
+  validateType(value, '$geoDistance', 'object')
+  validateType(value.$distance, '$geoDistance.$distance', ['string', 'number'])
+
+  return {
+    geo_distance: {
+      distance: value.$distance,
+      [field]: validateGeoPoint(value.$point, '$geoDistance.$point')
+    }
+  }
+}
+
+/**
+ * Handles $geoBoundingBox - documents inside a rectangle
+ */
+export function $geoBoundingBox(field: string, value: GeoBoundingBoxQuery): QueryClause {
+  validateType(value, '$geoBoundingBox', 'object')
+
+  return {
+    geo_bounding_box: {
+      [field]: {
+        top_left: validateGeoPoint(value.$topLeft, '$geoBoundingBox.$topLeft'),
+        bottom_right: validateGeoPoint(value.$bottomRight, '$geoBoundingBox.$bottomRight')
+      }
+    }
+  }
+}
+
+/**
+ * Handles $geoPolygon - documents inside a polygon of points.
+ * The polygon is sent as a `geo_shape` query, `geo_polygon` is deprecated since 7.12 and removed in 8.0.
+ */
+export function $geoPolygon(field: string, value: GeoPolygonQuery): QueryClause {
+  validateType(value, '$geoPolygon', 'object')
+  validateType(value.$points, '$geoPolygon.$points', 'array')
+
+  if (value.$points.length < 3 || value.$points.length > MAX_POLYGON_POINTS) {
+    throw new errors.BadRequest(`Invalid value for '$geoPolygon.$points': expected 3 to ${MAX_POLYGON_POINTS} points`)
+  }
+
+  const ring = value.$points.map((point, i) =>
+    toCoordinates(validateGeoPoint(point, `$geoPolygon.$points[${i}]`), `$geoPolygon.$points[${i}]`)
+  )
+
+  if (ring.flat().some((coordinate) => !Number.isFinite(coordinate))) {
+    throw new errors.BadRequest(`Invalid value for '$geoPolygon.$points': expected numeric coordinates`)
+  }
+
+  const [first] = ring
+  const last = ring[ring.length - 1]
+
+  // GeoJSON rings end with their first point
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    ring.push(first)
+  }
+
+  return {
+    geo_shape: {
+      [field]: {
+        shape: { type: 'polygon', coordinates: [ring] },
+        relation: 'intersects'
+      }
+    }
+  }
+}
+
+/**
+ * Handles $geoShape - documents whose shape relates to a GeoJSON or envelope shape
+ */
+export function $geoShape(field: string, value: GeoShapeQuery): QueryClause {
+  validateType(value, '$geoShape', 'object')
+  validateType(value.$shape, '$geoShape.$shape', 'object')
+  validateType(value.$shape.type, '$geoShape.$shape.type', 'string')
+
+  if (value.$relation !== undefined) {
+    validateType(value.$relation, '$geoShape.$relation', 'string')
+
+    if (!GEO_SHAPE_RELATIONS.includes(value.$relation)) {
+      throw new errors.BadRequest(
+        `Invalid value for '$geoShape.$relation': expected one of ${GEO_SHAPE_RELATIONS.join(', ')}`
+      )
+    }
+  }
+
+  return {
+    geo_shape: {
+      [field]: {
+        shape: value.$shape,
+        relation: value.$relation || 'intersects'
+      }
+    }
+  }
+}
+
+/**
+ * Geo criteria operators mapped to their clause builders.
+ * All geo clauses are added to the `filter` section as they do not affect scoring.
+ */
+export const geoCriteriaHandlers: Record<string, (field: string, value: never) => QueryClause> = {
+  $geoDistance,
+  $geoBoundingBox,
+  $geoPolygon,
+  $geoShape
+}
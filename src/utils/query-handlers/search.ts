@@ -0,0 +1,158 @@
+import { errors } from '@feathersjs/errors'
+import { CustomOperators, MultiMatchQuery, QueryClause, SearchQuery } from '../../types'
+import { validateType } from '../core'
+import { sanitizeQueryString, validateSearchableFields } from '../security'
+
+const MULTI_MATCH_TYPES = ['best_fields', 'most_fields', 'cross_fields', 'phrase', 'phrase_prefix', 'bool_prefix']
+
+/**
+ * Types which analyze every term on its own and so can be fuzzy
+ */
+const FUZZY_TYPES = ['best_fields', 'most_fields', 'bool_prefix']
+
+/**
+ * Operators whose results are ranked by relevance
+ */
+export const FULL_TEXT_OPERATORS = [
+  '$search',
+  '$multiMatch',
+  '$autocomplete',
+  '$match',
+  '$phrase',
+  '$phrase_prefix',
+  '$sqs'
+]
+
+/**
+ * Builds a multi_match (or combined_fields) query from the options of $search and $multiMatch
+ */
+function compileMultiMatch(value: SearchQuery, fields: string[], name: string): QueryClause {
+  validateType(value.$query, `${name}.$query`, 'string')
+
+  const type = value.$type || 'best_fields'
+
+  if (type !== 'combined_fields' && !MULTI_MATCH_TYPES.includes(type)) {
+    throw new errors.BadRequest(`Invalid value for '${name}.$type': ${type}`)
+  }
+
+  if (value.$operator !== undefined && !['and', 'or'].includes(value.$operator)) {
+    throw new errors.BadRequest(`Invalid value for '${name}.$operator': expected 'and' or 'or'`)
+  }
+
+  if (value.$fuzziness !== undefined) {
+    validateType(value.$fuzziness, `${name}.$fuzziness`, ['string', 'number'])
+
+    if (!FUZZY_TYPES.includes(type)) {
+      throw new errors.BadRequest(`'${name}.$fuzziness' can not be used with type ${type}`)
+    }
+  }
+
+  if (value.$minimumShouldMatch !== undefined) {
+    validateType(value.$minimumShouldMatch, `${name}.$minimumShouldMatch`, ['string', 'number'])
+  }
+
+  if (type === 'combined_fields' && !fields.length) {
+    throw new errors.BadRequest(`'${name}' needs search fields for type combined_fields`)
+  }
+
+  const query: Record<string, unknown> = {
+    query: sanitizeQueryString(value.$query, 500),
+    ...(fields.length > 0 && { fields }),
+    ...(value.$operator && { operator: value.$operator }),
+    ...(value.$minimumShouldMatch !== undefined && { minimum_should_match: value.$minimumShouldMatch })
+  }
+
+  if (type === 'combined_fields') {
+    return { combined_fields: query }
+  }
+
+  return {
+    multi_match: {
+      ...query,
+      type,
+      ...(value.$fuzziness !== undefined && { fuzziness: value.$fuzziness })
+    }
+  }
+}
+
+/**
+ * Creates the full-text operators of a service:
+ * `$search` searches the configured search fields, `$multiMatch` the fields given in the query
+ * and `$autocomplete` the prefixes of a `search_as_you_type` field.
+ * All add a scoring multi_match query to the `must` section.
+ * @param searchFields - Fields searched by `$search`, with optional boosts like `title^3`
+ * @param searchableFields - Fields which may be searched (`security.searchableFields`, empty = all)
+ * @returns Operators for the operator registry of the service
+ */
+export function getSearchOperators(searchFields: string[], searchableFields: string[]): CustomOperators {
+  // Without configured fields, search the searchable fields (or all fields)
+  const defaultFields = searchFields.length ? searchFields : searchableFields
+
+  return {
+    $search: {
+      kind: 'special',
+      section: 'must',
+      complexity: 2,
+      cacheable: true,
+      compile: (value) => {
+        const search = (typeof value === 'string' ? { $query: value } : value) as SearchQuery
+
+        validateType(search, '$search', 'object')
+        validateSearchableFields(defaultFields, searchableFields)
+
+        return compileMultiMatch(search, defaultFields, '$search')
+      }
+    },
+    $multiMatch: {
+      kind: 'special',
+      section: 'must',
+      complexity: 2,
+      cacheable: true,
+      compile: (value) => {
+        const search = value as MultiMatchQuery
+
+        validateType(search, '$multiMatch', 'object')
+        validateType(search.$fields, '$multiMatch.$fields', 'array')
+        validateSearchableFields(search.$fields, searchableFields)
+
+        return compileMultiMatch(search, search.$fields, '$multiMatch')
+      }
+    },
+    $autocomplete: {
+      kind: 'criteria',
+      section: 'must',
+      complexity: 2,
+      cacheable: true,
+      compile: (value, { field = '' }) => {
+        validateType(value, '$autocomplete', 'string')
+        validateSearchableFields([field], searchableFields)
+
+        // The shingle subfields of search_as_you_type match the terms before the last one
+        return {
+          multi_match: {
+            query: sanitizeQueryString(value as string, 500),
+            type: 'bool_prefix',
+            fields: [field, `${field}._2gram`, `${field}._3gram`]
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a query uses a full-text operator, also in sub-queries
+ * @param query - Feathers query
+ * @returns Whether the results should be ranked by relevance
+ */
+export function hasFullTextQuery(query: unknown): boolean {
+  if (!query || typeof query !== 'object') {
+    return false
+  }
+
+  return Object.entries(query as Record<string, unknown>).some(
+    ([key, value]) =>
+      FULL_TEXT_OPERATORS.includes(key) ||
+      (Array.isArray(value) ? value.some(hasFullTextQuery) : hasFullTextQuery(value))
+  )
+}
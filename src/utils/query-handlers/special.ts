@@ -1,4 +1,4 @@
-import { ESQuery, SQSQuery, NestedQuery, ChildParentQuery } from '../../types'
+import { ESQuery, SQSQuery, NestedQuery, ChildParentQuery, CustomOperators } from '../../types'
 import { validateType, removeProps } from '../core'
 import { parseQuery } from '../parse-query'
 import { sanitizeQueryString } from '../security'
@@ -11,7 +11,8 @@ export function $or(
   esQuery: ESQuery,
   idProp: string,
   maxDepth: number = 50,
-  currentDepth: number = 0
+  currentDepth: number = 0,
+  operators: CustomOperators = {}
 ): ESQuery {
   const arrayValue = value as Array<Record<string, unknown>>
   validateType(value, '$or', 'array')
@@ -19,7 +20,7 @@ export function $or(
   esQuery.should = esQuery.should || []
   esQuery.should.push(
     ...arrayValue
-      .map((subQuery) => parseQuery(subQuery, idProp, maxDepth, currentDepth + 1))
+      .map((subQuery) => parseQuery(subQuery, idProp, maxDepth, currentDepth + 1, operators))
       .filter((parsed): parsed is ESQuery => !!parsed)
       .map((parsed) => ({ bool: parsed }))
   )
@@ -36,13 +37,14 @@ export function $and(
   esQuery: ESQuery,
   idProp: string,
   maxDepth: number = 50,
-  currentDepth: number = 0
+  currentDepth: number = 0,
+  operators: CustomOperators = {}
 ): ESQuery {
   const arrayValue = value as Array<Record<string, unknown>>
   validateType(value, '$and', 'array')
 
   arrayValue
-    .map((subQuery) => parseQuery(subQuery, idProp, maxDepth, currentDepth + 1))
+    .map((subQuery) => parseQuery(subQuery, idProp, maxDepth, currentDepth + 1, operators))
     .filter((parsed): parsed is ESQuery => !!parsed)
     .forEach((parsed) => {
       Object.keys(parsed).forEach((section) => {
@@ -124,7 +126,8 @@ export function $nested(
   esQuery: ESQuery,
   idProp: string,
   maxDepth: number = 50,
-  currentDepth: number = 0
+  currentDepth: number = 0,
+  operators: CustomOperators = {}
 ): ESQuery {
   if (value === null || value === undefined) {
     return esQuery
@@ -133,7 +136,7 @@ export function $nested(
   validateType(value, '$nested', 'object')
   validateType(value.$path, '$nested.$path', 'string')
 
-  const subQuery = parseQuery(removeProps(value, '$path'), idProp, maxDepth, currentDepth + 1)
+  const subQuery = parseQuery(removeProps(value, '$path'), idProp, maxDepth, currentDepth + 1, operators)
 
   if (!subQuery) {
     return esQuery
@@ -161,7 +164,8 @@ export function $childOr$parent(
   esQuery: ESQuery,
   idProp: string,
   maxDepth: number = 50,
-  currentDepth: number = 0
+  currentDepth: number = 0,
+  operators: CustomOperators = {}
 ): ESQuery {
   const queryName = queryType === '$child' ? 'has_child' : 'has_parent'
   const typeName = queryType === '$child' ? 'type' : 'parent_type'
@@ -173,7 +177,7 @@ export function $childOr$parent(
   validateType(value, queryType, 'object')
   validateType(value.$type, `${queryType}.$type`, 'string')
 
-  const subQuery = parseQuery(removeProps(value, '$type'), idProp, maxDepth, currentDepth + 1)
+  const subQuery = parseQuery(removeProps(value, '$type'), idProp, maxDepth, currentDepth + 1, operators)
 
   if (!subQuery) {
     return esQuery
@@ -0,0 +1,250 @@
+import { errors } from '@feathersjs/errors'
+import { ESQuery, MappedField, MappedFields, QueryClause } from '../types'
+
+type Properties = Record<string, Record<string, unknown>>
+
+/**
+ * Mapping types whose values are numbers
+ */
+const NUMERIC_TYPES = [
+  'long',
+  'integer',
+  'short',
+  'byte',
+  'double',
+  'float',
+  'half_float',
+  'scaled_float',
+  'unsigned_long'
+]
+
+/**
+ * Clauses whose keys are field names, besides these parameters
+ */
+const FIELD_CLAUSES = [
+  'match',
+  'match_phrase',
+  'match_phrase_prefix',
+  'geo_distance',
+  'geo_bounding_box',
+  'geo_polygon',
+  'geo_shape'
+]
+const CLAUSE_PARAMETERS = ['distance', 'distance_type', 'validation_method', 'ignore_unmapped', 'boost', '_name']
+
+/**
+ * Subfields a `search_as_you_type` field has without declaring them
+ */
+const SEARCH_AS_YOU_TYPE_SUBFIELDS = ['_2gram', '_3gram', '_index_prefix']
+
+/**
+ * Flattens mapping properties into the types of all field paths, including multi-fields
+ * @param properties - Field properties of the index mapping
+ * @param prefix - Path of the parent object
+ * @returns Mapped fields by path, text fields with the path of their keyword subfield
+ */
+export function getMappedFields(properties: Properties, prefix = ''): MappedFields {
+  return Object.entries(properties).reduce((fields: MappedFields, [name, field]) => {
+    const path = `${prefix}${name}`
+    const subfields = (field.fields || {}) as Properties
+    const keywords = Object.keys(subfields).filter((subfield) => subfields[subfield].type === 'keyword')
+    const keyword = keywords.includes('keyword') ? 'keyword' : keywords[0]
+    const mapped: MappedField = { type: (field.type as string) || (field.properties ? 'object' : 'unknown') }
+
+    if (keyword) {
+      mapped.keyword = `${path}.${keyword}`
+    }
+
+    fields[path] = mapped
+
+    Object.entries(subfields).forEach(([subfield, definition]) => {
+      fields[`${path}.${subfield}`] = { type: definition.type as string }
+    })
+
+    if (field.type === 'search_as_you_type') {
+      SEARCH_AS_YOU_TYPE_SUBFIELDS.forEach((subfield) => {
+        fields[`${path}.${subfield}`] = { type: 'search_as_you_type' }
+      })
+    }
+
+    if (field.properties) {
+      Object.assign(fields, getMappedFields(field.properties as Properties, `${path}.`))
+    }
+
+    return fields
+  }, {})
+}
+
+/**
+ * Gets the mapping of a queried field, metadata fields like `_id` are not checked
+ * @throws BadRequest if the field is not mapped and unmapped fields are rejected
+ */
+function getField(field: string, fields: MappedFields, rejectUnmapped: boolean): MappedField | undefined {
+  if (field.startsWith('_')) {
+    return undefined
+  }
+
+  const mapped = fields[field]
+
+  if (!mapped && rejectUnmapped) {
+    throw new errors.BadRequest(`Field '${field}' is not mapped`)
+  }
+
+  return mapped
+}
+
+/**
+ * Checks the fields of a full-text or vector query, with boosts like `title^3`. Patterns are not checked.
+ * @param names - Queried fields
+ * @param fields - Mapped fields from `getMappedFields`
+ * @param options - `rejectUnmapped` to throw for fields which are not in the mapping
+ * @throws BadRequest if a field is not mapped and unmapped fields are rejected
+ */
+export function validateMappedFields(
+  names: string[],
+  fields: MappedFields,
+  options: { rejectUnmapped?: boolean } = {}
+): void {
+  names
+    .map((field) => field.split('^')[0])
+    .filter((field) => !field.includes('*'))
+    .forEach((field) => getField(field, fields, !!options.rejectUnmapped))
+}
+
+/**
+ * Converts a query string value to the type of the field, e.g. `'5'` for a numeric field
+ * @throws BadRequest if the value can not be converted
+ */
+function coerceValue(field: string, value: unknown, mapped?: MappedField): unknown {
+  if (!mapped || typeof value !== 'string') {
+    return value
+  }
+
+  if (NUMERIC_TYPES.includes(mapped.type)) {
+    const number = Number(value)
+
+    if (!value.trim() || isNaN(number)) {
+      throw new errors.BadRequest(`Invalid value '${value}' for numeric field '${field}'`)
+    }
+
+    return number
+  }
+
+  if (mapped.type === 'boolean') {
+    if (value !== 'true' && value !== 'false') {
+      throw new errors.BadRequest(`Invalid value '${value}' for boolean field '${field}'`)
+    }
+
+    return value === 'true'
+  }
+
+  // Timestamps are epoch milliseconds, other strings can be formatted dates or date math
+  if (mapped.type === 'date' && /^-?\d+$/.test(value)) {
+    return Number(value)
+  }
+
+  return value
+}
+
+/**
+ * Translates a single query clause, see `translateQuery`
+ */
+function translateClause(clause: QueryClause, fields: MappedFields, rejectUnmapped: boolean): QueryClause {
+  const [type] = Object.keys(clause)
+  const body = clause[type] as Record<string, unknown>
+
+  switch (type) {
+    case 'bool':
+      return { bool: translateQuery(body as ESQuery, fields, { rejectUnmapped }) }
+    case 'nested':
+      getField(body.path as string, fields, rejectUnmapped)
+
+      return { nested: { ...body, query: translateClause(body.query as QueryClause, fields, rejectUnmapped) } }
+    case 'has_child':
+    case 'has_parent':
+      return { [type]: { ...body, query: translateClause(body.query as QueryClause, fields, rejectUnmapped) } }
+    case 'term':
+    case 'terms':
+    case 'range':
+    case 'prefix':
+    case 'wildcard':
+    case 'regexp': {
+      const [field] = Object.keys(body)
+      const mapped = getField(field, fields, rejectUnmapped)
+      const value = body[field]
+      // Exact values of analyzed text only match its keyword subfield
+      const target = mapped?.type === 'text' && mapped.keyword ? mapped.keyword : field
+
+      if (type === 'range') {
+        const bounds = value as Record<string, unknown>
+
+        return {
+          range: {
+            [target]: Object.keys(bounds).reduce((result: Record<string, unknown>, bound) => {
+              result[bound] = coerceValue(field, bounds[bound], mapped)
+              return result
+            }, {})
+          }
+        }
+      }
+
+      // Prefixes and patterns are strings whatever the field type
+      if (type === 'prefix' || type === 'wildcard' || type === 'regexp') {
+        return { [type]: { [target]: value } }
+      }
+
+      return {
+        [type]: {
+          [target]: Array.isArray(value)
+            ? value.map((item) => coerceValue(field, item, mapped))
+            : coerceValue(field, value, mapped)
+        }
+      }
+    }
+    case 'exists':
+      getField(body.field as string, fields, rejectUnmapped)
+      return clause
+    case 'simple_query_string':
+    case 'multi_match':
+    case 'combined_fields':
+      validateMappedFields((body.fields as string[] | undefined) || [], fields, { rejectUnmapped })
+      return clause
+    default:
+      if (FIELD_CLAUSES.includes(type)) {
+        Object.keys(body)
+          .filter((key) => !CLAUSE_PARAMETERS.includes(key))
+          .forEach((field) => getField(field, fields, rejectUnmapped))
+      }
+
+      return clause
+  }
+}
+
+/**
+ * Translates a parsed bool query with the index mapping: term, terms, range, prefix, wildcard and regexp
+ * clauses on text fields use their keyword subfield and values are converted to the mapped type (numbers, booleans
+ * and timestamps of dates). The parsed query is not changed, it may be cached.
+ * @param esQuery - Bool query from `parseQuery`
+ * @param fields - Mapped fields from `getMappedFields`
+ * @param options - `rejectUnmapped` to throw for fields which are not in the mapping
+ * @returns Translated bool query
+ * @throws BadRequest for unmapped fields (if rejected) and values which do not match the field type
+ */
+export function translateQuery(
+  esQuery: ESQuery,
+  fields: MappedFields,
+  options: { rejectUnmapped?: boolean } = {}
+): ESQuery {
+  return Object.keys(esQuery).reduce((result: ESQuery, section) => {
+    const key = section as keyof ESQuery
+    const value = esQuery[key]
+
+    result[key] = (
+      Array.isArray(value)
+        ? value.map((clause) => translateClause(clause as QueryClause, fields, !!options.rejectUnmapped))
+        : value
+    ) as never
+
+    return result
+  }, {})
+}
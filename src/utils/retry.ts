@@ -9,12 +9,55 @@ export interface RetryConfig {
   maxDelay?: number
   backoffMultiplier?: number
   retryableErrors?: string[]
+  onRetry?: (attempt: RetryAttempt) => void // Called before waiting for each retry
 }
 
+/**
+ * A failed attempt which is going to be retried
+ */
+export interface RetryAttempt {
+  method?: string // Client method, e.g. `search` or `indices.getMapping`
+  attempt: number // Number of the retry, starting at 1
+  maxRetries: number
+  delay: number // Milliseconds until the retry
+  error: Error
+}
+
+/**
+ * Client methods which only read, and so can always be retried
+ */
+const READ_METHODS = [
+  'count',
+  'exists',
+  'explain',
+  'fieldCaps',
+  'get',
+  'info',
+  'mget',
+  'msearch',
+  'openPointInTime',
+  'closePointInTime',
+  'ping',
+  'search',
+  'termvectors',
+  'mtermvectors',
+  'cluster.health',
+  'indices.exists',
+  'indices.existsAlias',
+  'indices.get',
+  'indices.getAlias',
+  'indices.getMapping',
+  'indices.getSettings',
+  'indices.refresh',
+  'indices.stats',
+  'tasks.get',
+  'tasks.list'
+]
+
 /**
  * Default retry configuration
  */
-export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+export const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'onRetry'>> = {
   maxRetries: 3,
   initialDelay: 100,
   maxDelay: 5000,
@@ -110,30 +153,71 @@ export async function withRetry<T>(operation: () => Promise<T>, config: RetryCon
 
       // Calculate and apply delay before next attempt
       const delay = calculateDelay(attempt, mergedConfig)
+      mergedConfig.onRetry?.({
+        attempt: attempt + 1,
+        maxRetries: mergedConfig.maxRetries,
+        delay,
+        error: error as Error
+      })
       await new Promise((resolve) => setTimeout(resolve, delay))
-
-      // Log retry attempt (could be enhanced with proper logging)
-      if (process.env.NODE_ENV !== 'test') {
-        console.warn(
-          `Retrying operation after ${delay}ms (attempt ${attempt + 1}/${mergedConfig.maxRetries})`
-        )
-      }
     }
   }
 
   throw lastError!
 }
 
+/**
+ * Checks whether a client request can be sent again without changing its outcome.
+ * Reads always can. Writes only if repeating them has the same effect: `index` with an id,
+ * conditional updates and updates which set fields without a script.
+ * Bulk requests are not retried as a whole, they report rejected items on their own.
+ * @param method - Client method, e.g. `search` or `indices.getMapping`
+ * @param params - Request parameters
+ * @returns Whether the request can be retried
+ */
+export function isIdempotentRequest(method: string, params: Record<string, unknown> = {}): boolean {
+  if (READ_METHODS.includes(method)) {
+    return true
+  }
+
+  const body = (params.body || params) as Record<string, unknown>
+
+  switch (method) {
+    case 'index':
+      return params.id !== undefined && params.op_type !== 'create'
+    case 'update':
+      return params.if_seq_no !== undefined || body.script === undefined
+    case 'indices.putMapping':
+    case 'indices.putSettings':
+      return true
+    default:
+      return false
+  }
+}
+
 /**
  * Creates a retry wrapper for Elasticsearch operations
  * @param esClient - Elasticsearch client or operation
  * @param config - Retry configuration
+ * @param isRetryable - Decides by method and parameters which requests are retried (default: all)
+ * @param path - Namespace of the wrapped object, e.g. `indices.`
  * @returns Wrapped operation with retry logic
  */
-export function createRetryWrapper(esClient: Record<string, unknown>, config: RetryConfig = {}) {
+export function createRetryWrapper(
+  esClient: Record<string, unknown>,
+  config: RetryConfig = {},
+  isRetryable: (method: string, params: Record<string, unknown>) => boolean = () => true,
+  path = ''
+) {
   return new Proxy(esClient, {
     get(target, prop) {
       const original = target[prop as keyof typeof target]
+      const method = `${path}${String(prop)}`
+
+      // Namespaces like `indices` hold methods of their own
+      if (original && typeof original === 'object' && !path) {
+        return createRetryWrapper(original as Record<string, unknown>, config, isRetryable, `${method}.`)
+      }
 
       // Only wrap functions
       if (typeof original !== 'function') {
@@ -142,10 +226,16 @@ export function createRetryWrapper(esClient: Record<string, unknown>, config: Re
 
       // Return wrapped function with retry logic
       return async function (...args: unknown[]) {
-        return withRetry(
-          () => (original as (...args: unknown[]) => Promise<unknown>).apply(target, args),
-          config
-        )
+        const send = () => (original as (...args: unknown[]) => Promise<unknown>).apply(target, args)
+
+        if (!isRetryable(method, (args[0] || {}) as Record<string, unknown>)) {
+          return send()
+        }
+
+        return withRetry(send, {
+          ...config,
+          onRetry: config.onRetry && ((attempt) => config.onRetry!({ ...attempt, method }))
+        })
       }
     }
   })
@@ -0,0 +1,277 @@
+import { errors } from '@feathersjs/errors'
+
+/**
+ * A JSON Schema (as declared with TypeBox or plain JSON), optionally annotated with `x-es`
+ */
+export type JSONSchema = Record<string, unknown>
+
+export interface SchemaMappingOptions {
+  exclude?: string[] // Top-level properties not to map, e.g. the id and meta properties
+  arrays?: 'nested' | 'object' // Mapping of arrays of objects (default: 'nested')
+  ignoreAbove?: number // `ignore_above` of the keyword subfield of strings (default: 256)
+}
+
+type FieldMapping = Record<string, unknown>
+
+/**
+ * Mapping types of string formats, other formats are mapped like plain strings
+ */
+const FORMAT_TYPES: Record<string, string> = {
+  date: 'date',
+  'date-time': 'date',
+  ipv4: 'ip',
+  ipv6: 'ip',
+  email: 'keyword',
+  uri: 'keyword',
+  uuid: 'keyword',
+  time: 'keyword'
+}
+
+/**
+ * Mapping types which can have sub-properties
+ */
+const OBJECT_TYPES = ['object', 'nested']
+
+/**
+ * Resolves a local `$ref` like `#/$defs/Address` against the root schema
+ */
+function resolveRef(ref: string, root: JSONSchema): JSONSchema {
+  if (!ref.startsWith('#/')) {
+    throw new errors.BadRequest(`Can not resolve schema reference '${ref}'`)
+  }
+
+  const resolved = ref
+    .slice(2)
+    .split('/')
+    .reduce((schema: unknown, key) => (schema as Record<string, unknown> | undefined)?.[key], root)
+
+  if (!resolved || typeof resolved !== 'object') {
+    throw new errors.BadRequest(`Can not resolve schema reference '${ref}'`)
+  }
+
+  return resolved as JSONSchema
+}
+
+/**
+ * Gets the type of the values of a union, if all its alternatives have the same one
+ */
+function getUnionType(alternatives: JSONSchema[], root: JSONSchema, refs: Set<string>): unknown {
+  const types = new Set(alternatives.map((alternative) => getValueSchema(alternative, root, new Set(refs)).type))
+
+  // Integers are numbers
+  if (types.size === 2 && types.has('integer') && types.has('number')) {
+    return 'number'
+  }
+
+  return types.size === 1 ? [...types][0] : undefined
+}
+
+/**
+ * Gets the schema describing the values of a field: resolves references and picks
+ * the first non-null alternative of nullable types and unions. Unions of different types have no type.
+ * @param refs - References resolved on the way to the field, the resolved ones are added.
+ * A reference which is already in there is recursive and has no type.
+ */
+function getValueSchema(schema: JSONSchema, root: JSONSchema, refs: Set<string> = new Set()): JSONSchema {
+  if (typeof schema.$ref === 'string') {
+    if (refs.has(schema.$ref)) {
+      return {}
+    }
+
+    refs.add(schema.$ref)
+
+    return getValueSchema({ ...resolveRef(schema.$ref, root), ...schema, $ref: undefined }, root, refs)
+  }
+
+  const alternatives = (schema.anyOf || schema.oneOf) as JSONSchema[] | undefined
+  if (alternatives) {
+    const values = alternatives.filter((alternative) => alternative.type !== 'null')
+
+    // A union of literals is an enum
+    if (values.length && values.every((alternative) => alternative.const !== undefined)) {
+      return { ...schema, type: typeof values[0].const, enum: values.map((alternative) => alternative.const) }
+    }
+
+    const type = getUnionType(values, root, refs)
+
+    if (!values.length || type === undefined) {
+      return {}
+    }
+
+    return { ...getValueSchema({ ...schema, ...values[0], anyOf: undefined, oneOf: undefined }, root, refs), type }
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== 'null')
+
+    return getValueSchema({ ...schema, anyOf: types.map((type) => ({ type })), type: undefined }, root, refs)
+  }
+
+  return schema
+}
+
+/**
+ * Generates the mapping of a string field
+ */
+function getStringMapping(schema: JSONSchema, options: SchemaMappingOptions): FieldMapping {
+  const formatType = FORMAT_TYPES[schema.format as string]
+
+  if (formatType) {
+    return { type: formatType }
+  }
+
+  if (schema.enum || schema.const !== undefined) {
+    return { type: 'keyword' }
+  }
+
+  return { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: options.ignoreAbove ?? 256 } } }
+}
+
+/**
+ * Generates the properties of an object schema
+ */
+function getProperties(
+  schema: JSONSchema,
+  root: JSONSchema,
+  options: SchemaMappingOptions,
+  refs: Set<string>,
+  exclude: string[] = []
+) {
+  const properties = (schema.properties || {}) as Record<string, JSONSchema>
+
+  return Object.keys(properties).reduce((result: Record<string, FieldMapping>, name) => {
+    if (!exclude.includes(name)) {
+      const mapping = getFieldMapping(properties[name], root, options, refs)
+
+      if (mapping) {
+        result[name] = mapping
+      }
+    }
+
+    return result
+  }, {})
+}
+
+/**
+ * Generates the mapping of a single field, without its `x-es` annotation.
+ * Fields without a type (like `Type.Any()` or unions of different types) are not mapped, so they are
+ * mapped dynamically by the type of their first value. An empty mapping would make them objects.
+ */
+function getGeneratedMapping(
+  schema: JSONSchema,
+  root: JSONSchema,
+  options: SchemaMappingOptions,
+  refs: Set<string>
+): FieldMapping | null {
+  switch (schema.type) {
+    case 'string':
+      return getStringMapping(schema, options)
+    case 'integer':
+      return { type: 'long' }
+    case 'number':
+      return { type: 'double' }
+    case 'boolean':
+      return { type: 'boolean' }
+    case 'object':
+      return schema.properties ? { properties: getProperties(schema, root, options, refs) } : { type: 'object' }
+    case 'array': {
+      const itemRefs = new Set(refs)
+      const items = getValueSchema((schema.items || {}) as JSONSchema, root, itemRefs)
+      const mapping = getFieldMapping(items, root, options, itemRefs)
+
+      // Arrays of objects are nested by default, so their items can be queried separately
+      if (
+        mapping &&
+        items.type === 'object' &&
+        items.properties &&
+        !(items['x-es'] as FieldMapping | undefined)?.type
+      ) {
+        return { type: options.arrays || 'nested', ...mapping }
+      }
+
+      return mapping
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Generates the mapping of a field. An `x-es` annotation is merged into the generated mapping,
+ * or replaces it if it declares another type (e.g. `geo_point`, `dense_vector` or `join`).
+ * Fields annotated with `x-es: false` are not mapped.
+ */
+function getFieldMapping(
+  field: JSONSchema,
+  root: JSONSchema,
+  options: SchemaMappingOptions,
+  refs: Set<string> = new Set()
+): FieldMapping | null {
+  const annotation = field['x-es'] as FieldMapping | false | undefined
+
+  if (annotation === false) {
+    return null
+  }
+
+  // Every field has the references on its own path
+  const fieldRefs = new Set(refs)
+  const schema = getValueSchema(field, root, fieldRefs)
+  const generated = getGeneratedMapping(schema, root, options, fieldRefs)
+
+  if (!annotation) {
+    return generated
+  }
+
+  const type = annotation.type as string | undefined
+
+  if (!type || type === generated?.type) {
+    return { ...generated, ...annotation }
+  }
+
+  const mapping: FieldMapping =
+    OBJECT_TYPES.includes(type) && generated?.properties
+      ? { properties: generated.properties, ...annotation }
+      : { ...annotation }
+
+  // The dimensions of a vector can be taken from a fixed length array
+  if (
+    type === 'dense_vector' &&
+    mapping.dims === undefined &&
+    schema.minItems !== undefined &&
+    schema.minItems === schema.maxItems
+  ) {
+    mapping.dims = schema.minItems
+  }
+
+  return mapping
+}
+
+/**
+ * Generates Elasticsearch mappings from a JSON Schema, e.g. a TypeBox `Type.Object` of a Feathers service.
+ * Strings become `text` with a `keyword` subfield (`keyword` for enums, `date` and `ip` for formats),
+ * integers `long`, numbers `double` and arrays of objects `nested`. Fields can be annotated with `x-es`
+ * to add mapping parameters (`{ analyzer: 'english' }`) or to set another type
+ * (`{ type: 'geo_point' }`, `{ type: 'dense_vector', dims: 384 }`, `{ type: 'join', relations: {...} }`).
+ * @param schema - JSON Schema of the documents
+ * @param options - Excluded properties and mapping defaults
+ * @returns Mappings for index creation
+ *
+ * @example
+ * schemaToMappings(Type.Object({
+ *   title: Type.String({ 'x-es': { analyzer: 'english' } }),
+ *   location: Type.Object({ lat: Type.Number(), lon: Type.Number() }, { 'x-es': { type: 'geo_point' } })
+ * }))
+ */
+export function schemaToMappings(
+  schema: JSONSchema,
+  options: SchemaMappingOptions = {}
+): { properties: Record<string, FieldMapping> } {
+  const refs = new Set<string>()
+  const root = getValueSchema(schema, schema, refs)
+
+  if (root.type !== 'object' || !root.properties) {
+    throw new errors.BadRequest('Mappings can only be generated from an object schema with properties')
+  }
+
+  return { properties: getProperties(root, schema, options, refs, options.exclude) }
+}
@@ -3,6 +3,7 @@
  * against common attack vectors.
  */
 
+import { Buffer } from 'buffer'
 import { errors } from '@feathersjs/errors'
 
 /**
@@ -84,6 +85,18 @@ export interface SecurityConfig {
    * @default 100
    */
   maxQueryComplexity?: number
+
+  /**
+   * Maximum number of aggregations (including sub-aggregations) per request
+   * @default 50
+   */
+  maxAggregations?: number
+
+  /**
+   * Maximum `size`/`shard_size` of bucket aggregations like terms or composite
+   * @default 10000
+   */
+  maxAggregationSize?: number
 }
 
 /**
@@ -100,7 +113,9 @@ export const DEFAULT_SECURITY_CONFIG: Required<SecurityConfig> = {
   searchableFields: [],
   enableDetailedErrors: process.env.NODE_ENV !== 'production',
   enableInputSanitization: true,
-  maxQueryComplexity: 100
+  maxQueryComplexity: 100,
+  maxAggregations: 50,
+  maxAggregationSize: 10000
 }
 
 /**
@@ -198,6 +213,16 @@ export function validateArraySize(array: unknown[], fieldName: string, maxSize:
   }
 }
 
+/**
+ * Measures the serialized size of a document
+ *
+ * @param data - Document to measure
+ * @returns Size of the UTF-8 encoded JSON representation in bytes
+ */
+export function getDocumentSize(data: unknown): number {
+  return Buffer.byteLength(JSON.stringify(data))
+}
+
 /**
  * Validates document size
  *
@@ -206,7 +231,7 @@ export function validateArraySize(array: unknown[], fieldName: string, maxSize:
  * @throws BadRequest if document exceeds maximum size
  */
 export function validateDocumentSize(data: unknown, maxSize: number): void {
-  const size = JSON.stringify(data).length
+  const size = getDocumentSize(data)
 
   if (size > maxSize) {
     throw new errors.BadRequest(`Document size (${size} bytes) exceeds maximum allowed (${maxSize} bytes)`)
@@ -354,9 +379,10 @@ export function sanitizeError(
  * PERFORMANCE: Enhanced complexity calculation with costs for expensive operations
  *
  * @param query - Query object
+ * @param weights - Additional cost of custom operators by name
  * @returns Complexity score (higher = more complex)
  */
-export function calculateQueryComplexity(query: unknown): number {
+export function calculateQueryComplexity(query: unknown, weights: Record<string, number> = {}): number {
   if (!query || typeof query !== 'object') {
     return 0
   }
@@ -369,8 +395,16 @@ export function calculateQueryComplexity(query: unknown): number {
     // Base cost for each operator
     complexity += 1
 
+    // Custom operators have their own cost, plus the sub-queries they may parse
+    if (Object.prototype.hasOwnProperty.call(weights, key)) {
+      complexity += weights[key]
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        complexity += calculateQueryComplexity(item, weights)
+      }
+    }
     // Expensive operators (wildcards, regex, fuzzy) have higher costs
-    if (key === '$wildcard') {
+    else if (key === '$wildcard') {
       complexity += 5
     } else if (key === '$regexp') {
       complexity += 8
@@ -380,24 +414,32 @@ export function calculateQueryComplexity(query: unknown): number {
       complexity += 3
     } else if (key === '$script') {
       complexity += 15 // Scripts are very expensive
+    } else if (key === '$geoDistance' || key === '$geoBoundingBox') {
+      complexity += 3
+    } else if (key === '$geoPolygon') {
+      // Point in polygon tests get more expensive with every point
+      const points = (value as { $points?: unknown } | null)?.$points
+      complexity += 5 + Math.ceil((Array.isArray(points) ? points.length : 0) / 10)
+    } else if (key === '$geoShape') {
+      complexity += 5 // Shape intersection is evaluated per document
     }
     // Nested operators are more expensive
     else if (key === '$or' || key === '$and') {
       if (Array.isArray(value)) {
         for (const item of value) {
-          complexity += calculateQueryComplexity(item) * 2
+          complexity += calculateQueryComplexity(item, weights) * 2
         }
       }
     } else if (key === '$nested') {
       if (typeof value === 'object') {
-        complexity += calculateQueryComplexity(value) * 10 // Nested queries are very expensive
+        complexity += calculateQueryComplexity(value, weights) * 10 // Nested queries are very expensive
       }
     } else if (key === '$child' || key === '$parent') {
       if (typeof value === 'object') {
-        complexity += calculateQueryComplexity(value) * 3
+        complexity += calculateQueryComplexity(value, weights) * 3
       }
     } else if (typeof value === 'object' && !Array.isArray(value)) {
-      complexity += calculateQueryComplexity(value)
+      complexity += calculateQueryComplexity(value, weights)
     } else if (Array.isArray(value)) {
       // Arrays add to complexity based on length
       complexity += Math.min(value.length, 100)
@@ -413,10 +455,15 @@ export function calculateQueryComplexity(query: unknown): number {
  *
  * @param query - Query object to validate
  * @param maxComplexity - Maximum allowed complexity score
+ * @param weights - Additional cost of custom operators by name
  * @throws BadRequest if query exceeds complexity budget
  */
-export function validateQueryComplexity(query: unknown, maxComplexity: number): void {
-  const complexity = calculateQueryComplexity(query)
+export function validateQueryComplexity(
+  query: unknown,
+  maxComplexity: number,
+  weights: Record<string, number> = {}
+): void {
+  const complexity = calculateQueryComplexity(query, weights)
 
   if (complexity > maxComplexity) {
     throw new errors.BadRequest(
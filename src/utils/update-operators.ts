@@ -0,0 +1,180 @@
+import { errors } from '@feathersjs/errors'
+import { validateType } from './core'
+import { sanitizeObject } from './security'
+
+/**
+ * Supported atomic patch operators
+ */
+export const UPDATE_OPERATORS = ['$inc', '$push', '$pull', '$unset', '$addToSet']
+
+export interface UpdateScript {
+  lang: 'painless'
+  source: string
+  params: Record<string, unknown>
+}
+
+/**
+ * Painless statements per operator. `m` is the map holding the field, `k` the field name
+ * and `v` the parameter holding the value.
+ */
+const STATEMENTS: Record<string, (m: string, k: string, v: string) => string> = {
+  $set: (m, k, v) => `${m}[${k}] = ${v};`,
+  $inc: (m, k, v) => `${m}[${k}] = (${m}[${k}] == null ? 0 : ${m}[${k}]) + ${v};`,
+  $push: (m, k, v) => `if (${m}[${k}] == null) { ${m}[${k}] = new ArrayList(); } ${m}[${k}].addAll(${v});`,
+  $addToSet: (m, k, v) =>
+    `if (${m}[${k}] == null) { ${m}[${k}] = new ArrayList(); } ` +
+    `for (def x : ${v}) { if (!${m}[${k}].contains(x)) { ${m}[${k}].add(x); } }`,
+  $pull: (m, k, v) => `if (${m}[${k}] instanceof List) { ${m}[${k}].removeAll(${v}); }`,
+  $unset: (m, k) => `${m}.remove(${k});`
+}
+
+/**
+ * Checks if patch data contains atomic update operators
+ * @param data - Patch data
+ * @returns True if any top-level key is an update operator
+ */
+export function hasUpdateOperators(data: Record<string, unknown>): boolean {
+  return Object.keys(data).some((key) => UPDATE_OPERATORS.includes(key))
+}
+
+/**
+ * Normalizes the value of an operator for a single field
+ */
+function getOperatorValue(operator: string, field: string, value: unknown): unknown {
+  const name = `${operator}.${field}`
+
+  switch (operator) {
+    case '$inc':
+      validateType(value, name, 'number')
+      return value
+    case '$push':
+    case '$addToSet': {
+      // Support MongoDB style `{ $each: [...] }` for adding multiple values
+      const each = value && typeof value === 'object' && !Array.isArray(value) && (value as { $each?: unknown }).$each
+
+      if (each !== undefined && each !== false) {
+        validateType(each, `${name}.$each`, 'array')
+        return each
+      }
+
+      return [value]
+    }
+    case '$pull':
+      return Array.isArray(value) ? value : [value]
+    default:
+      return value
+  }
+}
+
+/**
+ * Compiles patch data with atomic operators into a parameterized painless script.
+ * Plain fields are set, operator payloads are passed as script params so no user input
+ * ends up in the script source. Dotted field names address nested objects.
+ * @param data - Patch data, e.g. `{ status: 'read', $inc: { views: 1 }, $push: { tags: 'new' } }`
+ * @returns Painless script for the update API
+ * @throws BadRequest for unknown operators or invalid operator values
+ *
+ * @example
+ * compileUpdateScript({ $inc: { views: 1 } })
+ * // { lang: 'painless', source: '...', params: { p0: ['views'], v0: 1 } }
+ */
+export function compileUpdateScript(data: Record<string, unknown>): UpdateScript {
+  const sanitized = sanitizeObject(data)
+  const statements: string[] = []
+  const params: Record<string, unknown> = {}
+
+  const addStatement = (operator: string, field: string, value: unknown) => {
+    const i = statements.length
+
+    if (!field || field.split('.').some((part) => !part)) {
+      throw new errors.BadRequest(`Invalid field name '${field}' for ${operator}`)
+    }
+
+    params[`p${i}`] = field.split('.')
+    if (operator !== '$unset') {
+      params[`v${i}`] = getOperatorValue(operator, field, value)
+    }
+
+    // Walk (and create) the parent objects of dotted field names
+    statements.push(
+      `Map m${i} = ctx._source; ` +
+        `for (int i = 0; i < params.p${i}.size() - 1; i++) { ` +
+        `if (!(m${i}[params.p${i}[i]] instanceof Map)) { m${i}[params.p${i}[i]] = new HashMap(); } ` +
+        `m${i} = m${i}[params.p${i}[i]]; } ` +
+        `String k${i} = params.p${i}[params.p${i}.size() - 1]; ` +
+        STATEMENTS[operator](`m${i}`, `k${i}`, `params.v${i}`)
+    )
+  }
+
+  Object.keys(sanitized).forEach((key) => {
+    const value = sanitized[key]
+
+    if (!key.startsWith('$')) {
+      return addStatement('$set', key, value)
+    }
+
+    if (!UPDATE_OPERATORS.includes(key)) {
+      throw new errors.BadRequest(`Unknown update operator ${key}`)
+    }
+
+    if (key === '$unset' && Array.isArray(value)) {
+      return value.forEach((field, i) => {
+        validateType(field, `$unset[${i}]`, 'string')
+        addStatement(key, field as string, undefined)
+      })
+    }
+
+    validateType(value, key, 'object')
+    Object.keys(value as Record<string, unknown>).forEach((field) =>
+      addStatement(key, field, (value as Record<string, unknown>)[field])
+    )
+  })
+
+  return {
+    lang: 'painless',
+    source: statements.join('\n'),
+    params
+  }
+}
+
+/**
+ * Builds the update API body for patch data: a script if it contains operators, otherwise a partial doc
+ * @param doc - Patch data without id and meta properties
+ * @returns Update body
+ */
+export function getUpdateBody(
+  doc: Record<string, unknown>
+): { doc: Record<string, unknown> } | { script: UpdateScript } {
+  return hasUpdateOperators(doc) ? { script: compileUpdateScript(doc) } : { doc }
+}
+
+/**
+ * Gets the `retry_on_conflict` parameter for a patch.
+ * Scripted updates are re-applied on conflict, so they are retried 3 times by default.
+ * Conditional writes (`if_seq_no`) can not be retried and never get the parameter.
+ * @param doc - Patch data
+ * @param params - Service parameters
+ * @param concurrencyParams - Conditional write parameters of the patch
+ * @returns `{ retry_on_conflict }` or an empty object
+ */
+export function getRetryOnConflict(
+  doc: Record<string, unknown>,
+  params: { retryOnConflict?: number } = {},
+  concurrencyParams: { if_seq_no?: number } = {}
+): { retry_on_conflict?: number } {
+  if (concurrencyParams.if_seq_no !== undefined) {
+    return {}
+  }
+
+  const retries = params.retryOnConflict ?? (hasUpdateOperators(doc) ? 3 : undefined)
+
+  if (retries === undefined) {
+    return {}
+  }
+
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new errors.BadRequest('retryOnConflict must be a non-negative integer')
+  }
+
+  return { retry_on_conflict: retries }
+}
@@ -311,7 +311,9 @@ export function validateQueryParams(params: ElasticsearchServiceParams): void {
           '$sort',
           '$limit',
           '$skip',
-          '$index'
+          '$index',
+          '$aggs',
+          '$after'
         ].includes(key)
       )
     })
@@ -1,5 +1,6 @@
 import { expect } from 'chai'
 import { errors } from '@feathersjs/errors'
+import sinon from 'sinon'
 
 function create(app: any, serviceName: string) {
   describe('create()', () => {
@@ -150,6 +151,59 @@ function create(app: any, serviceName: string) {
           expect(results).to.have.nested.property('[1]._meta.status', 400)
         })
     })
+
+    it('should create items in chunks in the same order as requested (bulk)', async () => {
+      const service = app.service(serviceName)
+      const ids = ['Chunk1', 'Chunk2', 'Chunk3', 'Chunk4', 'Chunk5']
+      const bulk = sinon.spy(service.Model, 'bulk')
+      const { bulk: original } = service.options
+
+      service.options.bulk = { maxDocuments: 2, concurrency: 2 }
+
+      try {
+        const results = await service.create(ids.map((id) => ({ name: id, id })))
+
+        expect(bulk.callCount).to.equal(3)
+        expect(results.map((result: any) => result.name)).to.deep.equal(ids)
+      } finally {
+        service.options.bulk = original
+        bulk.restore()
+        await service.remove(null, { query: { id: { $in: ids } } })
+      }
+    })
+
+    it('should report failed items with bulkResult (bulk)', async () => {
+      const service = app.service(serviceName)
+
+      try {
+        const result = await service.create(
+          [
+            { name: 'Jane', id: 'JaneId' },
+            { name: 'Jane', id: 'JaneId' },
+          ],
+          { bulkResult: true }
+        )
+
+        expect(result.items).to.have.lengthOf(1)
+        expect(result.items[0].name).to.equal('Jane')
+        expect(result.errors).to.have.lengthOf(1)
+        expect(result.errors[0]).to.include({
+          index: 1,
+          id: 'JaneId',
+          status: 409,
+          type: 'version_conflict_engine_exception',
+          errorClass: 'Conflict',
+        })
+
+        await service.create([{ name: 'Jane', id: 'JaneId' }], { bulkResult: 'strict' })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error instanceof errors.Conflict).to.be.true
+        expect(error.data.errors[0].id).to.equal('JaneId')
+      } finally {
+        await service.remove('JaneId')
+      }
+    })
   })
 }
 
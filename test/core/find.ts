@@ -197,6 +197,46 @@ function find(app: any, serviceName: string, esVersion: string) {
           })
       })
 
+      it('can $search', () => {
+        return app
+          .service(serviceName)
+          .find({ query: { $search: 'legend' } })
+          .then((results: any[]) => {
+            expect(results.length).to.equal(1)
+            expect(results[0].name).to.equal('Douglas')
+          })
+      })
+
+      it('can $multiMatch with field boosts', () => {
+        return app
+          .service(serviceName)
+          .find({
+            query: {
+              $multiMatch: { $fields: ['bio^2', 'name'], $query: 'lke', $fuzziness: 'AUTO' },
+              $sort: { name: 1 },
+            },
+          })
+          .then((results: any[]) => {
+            expect(results.map((result: any) => result.name)).to.deep.equal(['Bob', 'Moody'])
+          })
+      })
+
+      it('can $highlight matches', () => {
+        return app
+          .service(serviceName)
+          .find({
+            query: {
+              bio: { $match: 'legend' },
+              $highlight: { fields: ['bio'], pre_tags: ['<mark>'], post_tags: ['</mark>'] },
+            },
+          })
+          .then((results: any[]) => {
+            expect(results.length).to.equal(1)
+            expect(results[0]._meta.highlight).to.deep.equal({ bio: ['A <mark>legend</mark>'] })
+            expect(results[0]._meta._score).to.be.a('number')
+          })
+      })
+
       it('can $child', () => {
         const types = {
           '5.0': 'aka',
@@ -299,6 +339,58 @@ function find(app: any, serviceName: string, esVersion: string) {
             expect(results[1].name).to.equal('Moody')
           })
       })
+
+      it('can $aggs', () => {
+        return app
+          .service(serviceName)
+          .find({
+            query: {
+              $limit: 0,
+              $aggs: { tags: { terms: { field: 'tags' } } },
+            },
+            paginate: { default: 10 },
+          })
+          .then((results: any) => {
+            const buckets = results.aggregations.tags.buckets
+
+            expect(results.data).to.be.an('array').and.be.empty
+            expect(results.aggregations.tags.type).to.equal('terms')
+            expect(buckets[0]).to.deep.equal({ key: 'programmer', docCount: 3 })
+          })
+      })
+    })
+
+    describe('cursor pagination', () => {
+      it('pages through all results with $after', async () => {
+        const service = app.service(serviceName)
+        const first = await service.find({
+          query: { tags: 'programmer', $sort: { name: 1 }, $limit: 2 },
+          cursor: true,
+        })
+
+        expect(first.data.map((item: any) => item.name)).to.deep.equal(['Bob', 'Douglas'])
+        expect(first.next).to.be.a('string')
+
+        const second = await service.find({
+          query: { tags: 'programmer', $sort: { name: 1 }, $limit: 2, $after: first.next },
+        })
+
+        expect(second.data.map((item: any) => item.name)).to.deep.equal(['Moody'])
+        expect(second.next).to.be.null
+        expect(second.total).to.equal(3)
+      })
+
+      it('rejects $skip in cursor mode', () => {
+        return app
+          .service(serviceName)
+          .find({ query: { $skip: 1 }, cursor: true })
+          .then(() => {
+            throw new Error('Should never get here')
+          })
+          .catch((error: any) => {
+            expect(error.name).to.equal('BadRequest')
+          })
+      })
     })
   })
 }
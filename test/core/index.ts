@@ -5,5 +5,7 @@ import patch from './patch.js'
 import remove from './remove.js'
 import update from './update.js'
 import raw from './raw.js'
+import iterate from './iterate.js'
+import tasks from './tasks.js'
 
-export { find, get, create, patch, remove, update, raw }
+export { find, get, create, patch, remove, update, raw, iterate, tasks }
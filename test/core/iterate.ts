@@ -0,0 +1,46 @@
+import { expect } from 'chai'
+
+function iterate(app: any, serviceName: string) {
+  describe('iterate()', () => {
+    it('should iterate over all matching documents in batches', async () => {
+      const names: string[] = []
+
+      for await (const doc of app.service(serviceName).iterate({
+        query: { tags: 'programmer', $sort: { name: 1 } },
+        batchSize: 2,
+      })) {
+        names.push(doc.name)
+      }
+
+      expect(names).to.deep.equal(['Bob', 'Douglas', 'Moody'])
+    })
+
+    it('should respect $select', async () => {
+      const docs: any[] = []
+
+      for await (const doc of app.service(serviceName).iterate({
+        query: { id: 'bob', $select: ['name'] },
+      })) {
+        docs.push(doc)
+      }
+
+      expect(docs.length).to.equal(1)
+      expect(docs[0].id).to.equal('bob')
+      expect(docs[0].name).to.equal('Bob')
+      expect(docs[0].tags).to.be.undefined
+    })
+
+    it('should stream documents', async () => {
+      const docs: any[] = []
+      const stream = app.service(serviceName).stream({ query: { tags: 'legend' } })
+
+      for await (const doc of stream) {
+        docs.push(doc)
+      }
+
+      expect(docs.map((doc) => doc.name)).to.deep.equal(['Douglas'])
+    })
+  })
+}
+
+export default iterate
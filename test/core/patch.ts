@@ -1,4 +1,5 @@
 import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
 import sinon from 'sinon'
 import { getCompatProp } from '../../lib/utils/index.js'
 
@@ -186,6 +187,70 @@ function patch(app: any, serviceName: string, esVersion: string) {
             .remove(null, { query: { id: { $in: ['patchMeA', 'patchMeB'] } } })
         )
     })
+
+    it('should patch conditionally with ifSeqNo and ifPrimaryTerm', async () => {
+      const service = app.service(serviceName)
+      const created = await service.create({ name: 'Concurrent', id: 'concurrentId' })
+      const { _seq_no: seqNo, _primary_term: primaryTerm } = created._meta
+
+      await service.patch('concurrentId', { name: 'First' }, { ifSeqNo: seqNo, ifPrimaryTerm: primaryTerm })
+
+      try {
+        await service.patch('concurrentId', { name: 'Second' }, { ifSeqNo: seqNo, ifPrimaryTerm: primaryTerm })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error instanceof errors.Conflict).to.be.true
+        expect(error.data.current._seq_no).to.be.greaterThan(seqNo)
+      } finally {
+        await service.remove('concurrentId')
+      }
+    })
+
+    it('should patch with atomic update operators', async () => {
+      const service = app.service(serviceName)
+
+      await service.create({ name: 'Counter', id: 'counterId', views: 1, tags: ['a', 'b'] })
+
+      try {
+        const result = await service.patch('counterId', {
+          $inc: { views: 2 },
+          $push: { tags: 'c' },
+          $pull: { tags: 'a' },
+          $unset: ['name'],
+        })
+
+        expect(result.views).to.equal(3)
+        expect(result.tags).to.deep.equal(['b', 'c'])
+        expect(result.name).to.be.undefined
+      } finally {
+        await service.remove('counterId')
+      }
+    })
+
+    it('should patch items server-side with byQuery (bulk)', async () => {
+      const service = app.service(serviceName)
+
+      await service.create([
+        { name: 'By query', id: 'byQuery1', views: 1 },
+        { name: 'By query', id: 'byQuery2', views: 2 },
+      ])
+
+      try {
+        const result = await service.patch(
+          null,
+          { $inc: { views: 10 } },
+          { query: { name: 'By query' }, byQuery: { conflicts: 'proceed' } }
+        )
+
+        expect(result).to.include({ total: 2, updated: 2, versionConflicts: 0 })
+        expect(result.failures).to.be.empty
+
+        const docs = await service.find({ query: { name: 'By query', $sort: { views: 1 } }, paginate: false })
+        expect(docs.map((doc: any) => doc.views)).to.deep.equal([11, 12])
+      } finally {
+        await service.remove(null, { query: { name: 'By query' } })
+      }
+    })
   })
 }
 
@@ -84,6 +84,25 @@ function remove(app: any, serviceName: string) {
         .catch()
         .then(() => bulk.restore())
     })
+
+    it('should remove items server-side with byQuery (bulk)', async () => {
+      const service = app.service(serviceName)
+
+      await service.create([
+        { name: 'Remove by query', id: 'removeByQuery1' },
+        { name: 'Remove by query', id: 'removeByQuery2' },
+      ])
+
+      const result = await service.remove(null, {
+        query: { name: 'Remove by query' },
+        byQuery: { slices: 'auto' },
+      })
+
+      expect(result).to.include({ total: 2, deleted: 2, versionConflicts: 0 })
+
+      const docs = await service.find({ query: { name: 'Remove by query' }, paginate: false })
+      expect(docs).to.be.empty
+    })
   })
 }
 
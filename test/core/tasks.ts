@@ -0,0 +1,65 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+
+function tasks(app: any, serviceName: string) {
+  describe('tasks', () => {
+    it('should track a background byQuery task until it completes', async () => {
+      const service = app.service(serviceName)
+
+      await service.create([
+        { name: 'Task target', id: 'taskTarget1', views: 0 },
+        { name: 'Task target', id: 'taskTarget2', views: 0 },
+      ])
+
+      try {
+        const { task } = await service.patch(
+          null,
+          { $inc: { views: 1 } },
+          { query: { name: 'Task target' }, byQuery: { waitForCompletion: false }, refresh: true }
+        )
+
+        expect(task).to.be.a('string')
+
+        const status = await service.waitForTask(task, { pollInterval: 50, timeout: 10000 })
+
+        expect(status).to.include({ id: task, action: 'indices:data/write/update/byquery', completed: true })
+        expect(status.progress).to.include({ total: 2, updated: 2 })
+        expect(status.percent).to.equal(100)
+
+        const fetched = await service.getTask(task)
+        expect(fetched.completed).to.be.true
+      } finally {
+        await service.remove(null, { query: { name: 'Task target' } })
+      }
+    })
+
+    it('should reject invalid task ids', async () => {
+      try {
+        await app.service(serviceName).getTask('not a task')
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error instanceof errors.BadRequest).to.be.true
+      }
+    })
+
+    it('should reject tasks of other indices', async () => {
+      const service = app.service(serviceName)
+      const { task } = await service.Model.deleteByQuery({
+        index: 'test-other-index',
+        query: { match_all: {} },
+        allow_no_indices: true,
+        ignore_unavailable: true,
+        wait_for_completion: false,
+      })
+
+      try {
+        await service.cancelTask(task)
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error instanceof errors.Forbidden).to.be.true
+      }
+    })
+  })
+}
+
+export default tasks
@@ -66,6 +66,305 @@ describe('Elasticsearch Service', () => {
         'Elasticsearch `Model` (client) needs to be provided'
       )
     })
+
+    it('registers custom operators per service', () => {
+      const between = {
+        kind: 'criteria',
+        compile: (value: any, { field }: any) => ({ range: { [field]: { gte: value[0], lte: value[1] } } }),
+      }
+      const withOperators = service({
+        Model: db.getClient(),
+        index: 'test-people',
+        operators: { $between: between, $any: { kind: 'special', compile: () => ({ match_all: {} }) } },
+      } as any) as any
+      const withoutOperators = service({ Model: db.getClient(), index: 'test-people' }) as any
+
+      const { filters, query } = withOperators.filterQuery({ query: { age: { $between: [1, 2] }, $any: true } })
+      expect(filters.$any).to.equal(true)
+      expect(query).to.deep.equal({ age: { $between: [1, 2] } })
+      expect(() => withoutOperators.filterQuery({ query: { age: { $between: [1, 2] } } })).to.throw(
+        'Invalid query parameter $between'
+      )
+      expect(() =>
+        service({ Model: db.getClient(), index: 'test-people', operators: { $match: between } } as any)
+      ).to.throw('Custom operator $match can not replace a built-in operator')
+    })
+  })
+
+  describe('setup()', () => {
+    const index = 'test-setup'
+    const options = {
+      Model: db.getClient(),
+      index,
+      esVersion,
+      settings: { number_of_shards: 1, number_of_replicas: 0 },
+      mappings: { properties: { name: { type: 'keyword' } } },
+    }
+
+    after(async () => {
+      await db.getClient().indices.delete({ index, ignore_unavailable: true })
+    })
+
+    it('creates a missing index and reports mapping differences of an existing one', async () => {
+      const created = service(options) as any
+
+      await created.setup()
+      expect(created.indexSetup).to.deep.equal({ created: true })
+
+      const changed = service({
+        ...options,
+        mappings: { properties: { name: { type: 'text' }, age: { type: 'integer' } } },
+      }) as any
+
+      await changed.setup()
+      expect(changed.indexSetup.created).to.be.false
+      expect(changed.indexSetup.mappingDiff).to.deep.equal({
+        added: ['age'],
+        conflicts: [{ field: 'name', parameter: 'type', declared: 'text', live: 'keyword' }],
+      })
+    })
+  })
+
+  describe('reindexTo()', () => {
+    const index = 'test-reindex'
+
+    after(async () => {
+      await db.getClient().indices.delete({ index: `${index}-v*`, ignore_unavailable: true })
+    })
+
+    it('moves the alias to a new index and rolls it back', async function () {
+      this.timeout(20000)
+
+      const aliased = service({
+        Model: db.getClient(),
+        index,
+        esVersion,
+        aliasIndex: true,
+        multi: true,
+        esParams: { refresh: true },
+        mappings: { properties: { name: { type: 'keyword' } } },
+      }) as any
+
+      await aliased.setup()
+      await aliased.create([{ name: 'Alice' }, { name: 'Bob' }])
+
+      const progress: number[] = []
+      const result = await aliased.reindexTo(
+        undefined,
+        { properties: { name: { type: 'text', fields: { raw: { type: 'keyword' } } } } },
+        { pollInterval: 50, onProgress: ({ percent }: any) => progress.push(percent) }
+      )
+
+      expect(result).to.include({ alias: index, from: `${index}-v1`, to: `${index}-v2`, oldDeleted: false })
+      expect(result.copied.created).to.equal(2)
+      expect(progress).to.not.be.empty
+
+      const found = await aliased.find({ query: { name: { $match: 'alice' } }, paginate: false })
+      expect(found).to.have.lengthOf(1)
+      expect(found[0]._meta._index).to.equal(`${index}-v2`)
+
+      await aliased.rollbackReindex(result, { deleteNew: true })
+
+      const alias = await db.getClient().indices.getAlias({ name: index })
+      expect(Object.keys(alias)).to.deep.equal([`${index}-v1`])
+    })
+
+    it('rejects indices which are not an alias', async () => {
+      try {
+        await (app.service(serviceName) as any).reindexTo()
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+      }
+    })
+  })
+
+  describe('queryMapping', () => {
+    const index = 'test-query-mapping'
+
+    after(async () => {
+      await db.getClient().indices.delete({ index, ignore_unavailable: true })
+    })
+
+    it('translates queries with the index mapping', async () => {
+      const mapped = service({
+        Model: db.getClient(),
+        index,
+        esVersion,
+        multi: true,
+        esParams: { refresh: true },
+        mappings: {
+          properties: {
+            title: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+            age: { type: 'integer' },
+          },
+        },
+        queryMapping: { rejectUnmapped: true },
+      }) as any
+
+      await mapped.setup()
+      await mapped.create([
+        { title: 'Hello World', age: 5 },
+        { title: 'Hello', age: 7 },
+      ])
+
+      const byTitle = await mapped.find({ query: { title: 'Hello World' }, paginate: false })
+      expect(byTitle.map((doc: any) => doc.age)).to.deep.equal([5])
+
+      const byAge = await mapped.find({ query: { age: { $in: ['7'] } }, paginate: false })
+      expect(byAge.map((doc: any) => doc.title)).to.deep.equal(['Hello'])
+
+      try {
+        await mapped.find({ query: { name: 'Hello' } })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+        expect(error.message).to.equal("Field 'name' is not mapped")
+      }
+    })
+  })
+
+  describe('suggest()', () => {
+    const index = 'test-suggest'
+    const suggester = service({
+      Model: db.getClient(),
+      index,
+      esVersion,
+      multi: true,
+      esParams: { refresh: true },
+      mappings: {
+        properties: {
+          title: { type: 'text' },
+          name: { type: 'search_as_you_type' },
+          category: { type: 'keyword' },
+          suggest: {
+            type: 'completion',
+            contexts: [{ name: 'category', type: 'category', path: 'category' }],
+          },
+        },
+      },
+    }) as any
+
+    before(async () => {
+      await suggester.setup()
+      await suggester.create([
+        { title: 'Elasticsearch guide', name: 'quick brown fox', category: 'books', suggest: ['Elasticsearch guide'] },
+        { title: 'Elastic stack', name: 'quick red fox', category: 'videos', suggest: ['Elastic stack'] },
+      ])
+    })
+
+    after(async () => {
+      await db.getClient().indices.delete({ index, ignore_unavailable: true })
+    })
+
+    it('returns completions with their documents', async () => {
+      const suggestions = await suggester.suggest('elas', { field: 'suggest', contexts: { category: ['books'] } })
+
+      expect(suggestions).to.have.lengthOf(1)
+      expect(suggestions[0].text).to.equal('Elasticsearch guide')
+      expect(suggestions[0].score).to.be.a('number')
+      expect(suggestions[0].payload.title).to.equal('Elasticsearch guide')
+    })
+
+    it('returns term suggestions', async () => {
+      const suggestions = await suggester.suggest('elasticsaerch', { type: 'term', field: 'title' })
+
+      expect(suggestions[0].text).to.equal('elasticsearch')
+      expect(suggestions[0].payload).to.deep.equal({ freq: 1 })
+    })
+
+    it('finds documents with $autocomplete', async () => {
+      const found = await suggester.find({ query: { name: { $autocomplete: 'quick br' } }, paginate: false })
+
+      expect(found.map((doc: any) => doc.title)).to.deep.equal(['Elasticsearch guide'])
+    })
+
+    it('rejects invalid options', async () => {
+      try {
+        await suggester.suggest('elas', { field: 'suggest', type: 'fuzzy' })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+      }
+    })
+  })
+
+  describe('embeddings', () => {
+    const index = 'test-embeddings'
+    const calls: string[][] = []
+    // Deterministic embedder: counts of the letters a, b and c
+    const embed = async (texts: string[]) => {
+      calls.push(texts)
+      return texts.map((text) => ['a', 'b', 'c'].map((letter) => text.split(letter).length - 1))
+    }
+    const embedded = service({
+      Model: db.getClient(),
+      index,
+      id: 'id',
+      esVersion,
+      multi: true,
+      esParams: { refresh: true },
+      embeddings: { field: 'embedding', sourceFields: ['title', 'body'], embed, batchSize: 2 },
+      mappings: {
+        properties: {
+          title: { type: 'text' },
+          body: { type: 'text' },
+          year: { type: 'integer' },
+          embedding: { type: 'dense_vector', dims: 3, index: true, similarity: 'l2_norm' },
+        },
+      },
+    }) as any
+
+    before(async () => {
+      await embedded.setup()
+    })
+
+    beforeEach(() => {
+      calls.length = 0
+    })
+
+    after(async () => {
+      await db.getClient().indices.delete({ index, ignore_unavailable: true })
+    })
+
+    it('stores the embedding on create, batching bulk creates', async () => {
+      const [created] = await embedded.create([
+        { id: 'aa', title: 'aaa', body: 'a' },
+        { id: 'bb', title: 'bbb', body: 'b' },
+        { id: 'cc', title: 'ccc', body: 'c' },
+      ])
+
+      expect(created.embedding).to.deep.equal([4, 0, 0])
+      expect(calls).to.deep.equal([
+        ['aaa\na', 'bbb\nb'],
+        ['ccc\nc'],
+      ])
+    })
+
+    it('updates the embedding when a source field changes', async () => {
+      expect((await embedded.patch('aa', { title: 'bb' })).embedding).to.deep.equal([1, 2, 0])
+      expect((await embedded.update('aa', { title: 'aaa', body: 'a' })).embedding).to.deep.equal([4, 0, 0])
+      expect(calls).to.deep.equal([['bb\na'], ['aaa\na']])
+
+      await embedded.patch('aa', { year: 2000 })
+      expect(calls).to.have.lengthOf(2)
+    })
+
+    it('embeds every document of a multi patch', async () => {
+      const patched = await embedded.patch(null, { body: 'cc' }, { query: { id: { $in: ['bb', 'cc'] } } })
+
+      expect(patched.map((doc: any) => doc.embedding).sort()).to.deep.equal([
+        [0, 0, 5],
+        [0, 3, 2],
+      ])
+      expect(calls).to.have.lengthOf(1)
+    })
+
+    it('finds documents with $semantic', async () => {
+      const found = await embedded.find({ query: { $semantic: { query: 'aaaa', k: 1 } }, paginate: false })
+
+      expect(found.map((doc: any) => doc.id)).to.deep.equal(['aa'])
+    })
   })
 
   describe('Adapter tests', () => {
@@ -235,5 +534,7 @@ describe('Elasticsearch Service', () => {
     coreTests.remove(app, serviceName)
     coreTests.update(app, serviceName)
     coreTests.raw(app, serviceName, esVersion)
+    coreTests.iterate(app, serviceName)
+    coreTests.tasks(app, serviceName)
   })
 })
@@ -0,0 +1,232 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+
+import service from '../../lib/index.js'
+import { normalizeAggregations, validateAggregations, getAggregations } from '../../lib/utils/aggregations.js'
+
+export default function aggregationsTests() {
+  describe('getAggregations', () => {
+    it('should return undefined if no aggregations are requested', () => {
+      expect(getAggregations({}, {})).to.be.undefined
+    })
+
+    it('should merge $aggs filter with params.aggregations', () => {
+      const aggs = getAggregations(
+        { $aggs: { tags: { terms: { field: 'tags' } } } },
+        { aggregations: { ages: { stats: { field: 'age' } } } }
+      )
+
+      expect(JSON.parse(JSON.stringify(aggs))).to.deep.equal({
+        tags: { terms: { field: 'tags' } },
+        ages: { stats: { field: 'age' } },
+      })
+    })
+  })
+
+  describe('validateAggregations', () => {
+    it('should accept valid nested definitions', () => {
+      expect(() =>
+        validateAggregations(
+          { tags: { terms: { field: 'tags', size: 10 }, aggs: { ages: { avg: { field: 'age' } } } } },
+          50,
+          100
+        )
+      ).to.not.throw()
+    })
+
+    it('should throw BadRequest if a definition has no aggregation type', () => {
+      expect(() => validateAggregations({ tags: { aggs: {} } }, 50, 100)).to.throw(errors.BadRequest)
+      expect(() => validateAggregations('tags', 50, 100)).to.throw(errors.BadRequest)
+    })
+
+    it('should throw BadRequest if bucket size exceeds the maximum', () => {
+      expect(() => validateAggregations({ tags: { terms: { field: 'tags', size: 101 } } }, 50, 100)).to.throw(
+        errors.BadRequest
+      )
+      expect(() =>
+        validateAggregations({ tags: { terms: { field: 'tags', shard_size: '500' } } }, 50, 100)
+      ).to.throw(errors.BadRequest)
+    })
+
+    it('should throw BadRequest if the number of aggregations exceeds the maximum', () => {
+      const aggs = {
+        a: { terms: { field: 'a' }, aggs: { b: { terms: { field: 'b' } } } },
+        c: { max: { field: 'c' } },
+      }
+
+      expect(() => validateAggregations(aggs, 2, 100)).to.throw(errors.BadRequest)
+      expect(() => validateAggregations(aggs, 3, 100)).to.not.throw()
+    })
+
+    it('should throw BadRequest for scripted aggregations', () => {
+      expect(() => validateAggregations({ total: { sum: { script: 'doc.a.value * 2' } } }, 50, 100)).to.throw(
+        errors.BadRequest
+      )
+    })
+
+    it('should throw BadRequest for scripts at any depth and script-based aggregation types', () => {
+      const aggs = [
+        { total: { scripted_metric: { map_script: 'state.x = 1', reduce_script: 'return 1' } } },
+        { top: { top_hits: { size: 1, script_fields: { x: { script: 'doc.a.value' } } } } },
+        { tags: { terms: { field: 'tags' }, aggs: { high: { bucket_selector: { buckets_path: {} } } } } },
+        { tags: { significant_terms: { field: 'tags', script_heuristic: { script: 'params._subset_freq' } } } },
+      ]
+
+      aggs.forEach((definition) =>
+        expect(() => validateAggregations(definition, 50, 100)).to.throw(errors.BadRequest, 'Scripts are not allowed')
+      )
+    })
+  })
+
+  describe('aggregations in find()', () => {
+    const searches: any[] = []
+    const Model = {
+      search: async (params: any) => {
+        searches.push(params)
+        return { hits: { total: { value: 0 }, hits: [] }, aggregations: {} }
+      },
+      openPointInTime: async () => ({ id: 'pit' }),
+    }
+    const query = { $aggs: { tags: { terms: { field: 'tags' } } } }
+
+    beforeEach(() => {
+      searches.length = 0
+    })
+
+    it('should throw BadRequest without pagination', async () => {
+      const people = service({ Model: Model as any, index: 'people', esVersion: '8.0' })
+
+      try {
+        await people.find({ query })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+        expect(error.message).to.equal('Aggregations need paginated results')
+        expect(searches).to.be.empty
+      }
+    })
+
+    it('should throw BadRequest with cursor pagination', async () => {
+      const people = service({ Model: Model as any, index: 'people', esVersion: '8.0', paginate: { default: 10 } })
+
+      try {
+        await people.find({ query, cursor: true } as any)
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+        expect(error.message).to.equal('Aggregations can not be used with cursor pagination')
+        expect(searches).to.be.empty
+      }
+    })
+
+    it('should return aggregations with pagination', async () => {
+      const people = service({ Model: Model as any, index: 'people', esVersion: '8.0', paginate: { default: 10 } })
+      const result: any = await people.find({ query })
+
+      expect(result.aggregations).to.deep.equal({})
+      expect(searches[0].aggs).to.deep.equal(query.$aggs)
+    })
+  })
+
+  describe('normalizeAggregations', () => {
+    it('should normalize terms buckets with sub-aggregations', () => {
+      const definitions = {
+        tags: { terms: { field: 'tags' }, aggs: { age: { avg: { field: 'age' } } } },
+      }
+      const raw = {
+        tags: {
+          doc_count_error_upper_bound: 0,
+          sum_other_doc_count: 2,
+          buckets: [{ key: 'javascript', doc_count: 2, age: { value: 31.5 } }],
+        },
+      }
+
+      expect(normalizeAggregations(raw, definitions)).to.deep.equal({
+        tags: {
+          type: 'terms',
+          docCountErrorUpperBound: 0,
+          sumOtherDocCount: 2,
+          buckets: [
+            {
+              key: 'javascript',
+              docCount: 2,
+              aggregations: { age: { type: 'avg', value: 31.5 } },
+            },
+          ],
+        },
+      })
+    })
+
+    it('should normalize date_histogram and keyed range buckets', () => {
+      const raw = {
+        created: {
+          buckets: [{ key: 1704067200000, key_as_string: '2024-01-01', doc_count: 4 }],
+        },
+        ages: {
+          buckets: {
+            young: { to: 30, doc_count: 1 },
+            old: { from: 30, doc_count: 2 },
+          },
+        },
+      }
+      const definitions = {
+        created: { date_histogram: { field: 'createdAt', calendar_interval: 'month' } },
+        ages: { range: { field: 'age', keyed: true, ranges: [{ to: 30 }, { from: 30 }] } },
+      }
+
+      expect(normalizeAggregations(raw, definitions)).to.deep.equal({
+        created: {
+          type: 'date_histogram',
+          buckets: [{ key: 1704067200000, keyAsString: '2024-01-01', docCount: 4 }],
+        },
+        ages: {
+          type: 'range',
+          buckets: [
+            { key: 'young', to: 30, docCount: 1 },
+            { key: 'old', from: 30, docCount: 2 },
+          ],
+        },
+      })
+    })
+
+    it('should normalize stats, cardinality and percentiles metrics', () => {
+      const raw = {
+        age: { count: 3, min: 20, max: 40, avg: 30, sum: 90 },
+        names: { value: 3 },
+        latency: { values: { '50.0': 12, '99.0': 80 } },
+        latencyList: {
+          values: [
+            { key: 50, value: 12 },
+            { key: 99.99, value: 95 },
+            { key: 100, value: 99 },
+          ],
+        },
+      }
+
+      expect(normalizeAggregations(raw)).to.deep.equal({
+        age: { type: 'stats', count: 3, min: 20, max: 40, avg: 30, sum: 90 },
+        names: { type: 'value', value: 3 },
+        latency: { type: 'percentiles', values: { '50.0': 12, '99.0': 80 } },
+        latencyList: { type: 'percentiles', values: { '50.0': 12, '99.99': 95, '100.0': 99 } },
+      })
+    })
+
+    it('should normalize nested single bucket aggregations', () => {
+      const definitions = {
+        addresses: {
+          nested: { path: 'addresses' },
+          aggs: { streets: { cardinality: { field: 'addresses.street' } } },
+        },
+      }
+      const raw = { addresses: { doc_count: 6, streets: { value: 5 } } }
+
+      expect(normalizeAggregations(raw, definitions)).to.deep.equal({
+        addresses: {
+          type: 'nested',
+          docCount: 6,
+          aggregations: { streets: { type: 'cardinality', value: 5 } },
+        },
+      })
+    })
+  })
+}
@@ -0,0 +1,191 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+import { setTimeout as sleep } from 'timers/promises'
+
+import service from '../../lib/index.js'
+import { getBulkErrors, toBulkResult, getBulkChunks, mapConcurrent } from '../../lib/utils/bulk.js'
+
+export default function bulkTests() {
+  const items: any[] = [
+    { create: { _id: 'a', status: 201, result: 'created' } },
+    {
+      create: {
+        _id: 'b',
+        status: 409,
+        error: { type: 'version_conflict_engine_exception', reason: 'document already exists' },
+      },
+    },
+    { delete: { _id: 'c', status: 404, result: 'not_found' } },
+  ]
+
+  describe('getBulkErrors', () => {
+    it('should describe failed items', () => {
+      expect(getBulkErrors(items)).to.deep.equal([
+        {
+          index: 1,
+          id: 'b',
+          status: 409,
+          type: 'version_conflict_engine_exception',
+          reason: 'document already exists',
+          errorClass: 'Conflict',
+        },
+        {
+          index: 2,
+          id: 'c',
+          status: 404,
+          type: 'not_found',
+          reason: 'Document c not_found',
+          errorClass: 'NotFound',
+        },
+      ])
+    })
+
+    it('should return no errors for successful items', () => {
+      expect(getBulkErrors([items[0]])).to.be.empty
+    })
+  })
+
+  describe('toBulkResult', () => {
+    const aligned = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+
+    it('should return the succeeded items and the errors', () => {
+      const result = toBulkResult(aligned, items, true) as any
+
+      expect(result.items).to.deep.equal([{ id: 'a' }])
+      expect(result.errors.map((error: any) => error.index)).to.deep.equal([1, 2])
+    })
+
+    it('should return the items in strict mode if nothing failed', () => {
+      expect(toBulkResult([aligned[0]], [items[0]], 'strict')).to.deep.equal([{ id: 'a' }])
+    })
+
+    it('should throw in strict mode if any item failed', () => {
+      expect(() => toBulkResult(aligned, items, 'strict')).to.throw(errors.GeneralError)
+
+      try {
+        toBulkResult(aligned.slice(0, 2), items.slice(0, 2), 'strict')
+      } catch (error: any) {
+        expect(error).to.be.instanceOf(errors.Conflict)
+        expect(error.message).to.equal('1 of 2 bulk operations failed')
+        expect(error.data.items).to.deep.equal([{ id: 'a' }])
+      }
+    })
+  })
+
+  describe('getBulkChunks', () => {
+    it('should split by item count', () => {
+      expect(getBulkChunks([1, 1, 1, 1, 1], 2, 100)).to.deep.equal([
+        [0, 2],
+        [2, 4],
+        [4, 5],
+      ])
+    })
+
+    it('should split by size and send oversized items alone', () => {
+      expect(getBulkChunks([40, 40, 30, 150, 10], 10, 100)).to.deep.equal([
+        [0, 2],
+        [2, 3],
+        [3, 4],
+        [4, 5],
+      ])
+    })
+
+    it('should return no chunks for no items', () => {
+      expect(getBulkChunks([], 10, 100)).to.be.empty
+    })
+  })
+
+  describe('mapConcurrent', () => {
+    it('should limit pending calls and keep the order', async () => {
+      let pending = 0
+      let maxPending = 0
+
+      const results = await mapConcurrent([30, 10, 20, 5], 2, async (delay, index) => {
+        pending += 1
+        maxPending = Math.max(maxPending, pending)
+        await sleep(delay)
+        pending -= 1
+
+        return index
+      })
+
+      expect(results).to.deep.equal([0, 1, 2, 3])
+      expect(maxPending).to.equal(2)
+    })
+  })
+
+  describe('multi create', () => {
+    const requests: any[] = []
+    const getService = (bulk: (body: any[]) => any, options: any = {}) => {
+      const people: any = service({
+        Model: {
+          bulk: async (params: any) => {
+            requests.push(params.body.filter((_line: any, i: number) => i % 2 === 0))
+            return bulk(params.body)
+          },
+        } as any,
+        index: 'people',
+        esVersion: '8.0',
+        multi: true,
+        bulk: { retry: { initialDelay: 1 }, ...options },
+      })
+      const events: any[] = []
+
+      people.emit = (event: string, data: any) => events.push({ event, method: data.method, attempt: data.attempt })
+
+      return { people, events }
+    }
+    const created = (line: any) => ({ index: { _id: line.index._id || 'auto', status: 201, result: 'created' } })
+
+    beforeEach(() => {
+      requests.length = 0
+    })
+
+    it('should only send the items rejected with 429 again', async () => {
+      const rejected = { index: { status: 429, error: { type: 'es_rejected_execution_exception' } } }
+      const { people, events } = getService((body) => ({
+        items: requests.length === 1 ? [created(body[0]), rejected] : [created(body[0])],
+      }))
+      const attempts: any[] = []
+
+      const result = await people.create([{ name: 'a' }, { name: 'b' }], {
+        lean: true,
+        retry: { onRetry: (attempt: any) => attempts.push(attempt) },
+      })
+
+      expect(result).to.have.lengthOf(2)
+      expect(requests).to.have.lengthOf(2)
+      expect(requests[1]).to.have.lengthOf(1)
+      expect(attempts.map(({ method, attempt, delay }) => ({ method, attempt, delay }))).to.deep.equal([
+        { method: 'bulk', attempt: 1, delay: 1 },
+      ])
+      expect(events).to.deep.equal([{ event: 'retry', method: 'bulk', attempt: 1 }])
+    })
+
+    it('should size the chunks in bytes', async () => {
+      const { people } = getService((body) => ({ items: body.filter((_line, i) => i % 2 === 0).map(created) }), {
+        maxBytes: 400,
+      })
+      const name = '€'.repeat(100)
+
+      await people.create([{ name }, { name }], { lean: true })
+
+      expect(requests).to.have.lengthOf(2)
+    })
+
+    it('should not send a request failing as a whole again', async () => {
+      const { people, events } = getService(() => {
+        throw Object.assign(new Error('socket hang up'), { name: 'ConnectionError' })
+      })
+
+      try {
+        await people.create([{ name: 'a' }], { lean: true })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('GeneralError')
+        expect(requests).to.have.lengthOf(1)
+        expect(events).to.be.empty
+      }
+    })
+  })
+}
@@ -0,0 +1,80 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+
+export default function byQueryTests() {
+  describe('byQuery of a paginated service', () => {
+    const requests: any[] = []
+    const Model = {
+      updateByQuery: async (params: any) => {
+        requests.push(params)
+        return { total: 25, updated: 25 }
+      },
+      deleteByQuery: async (params: any) => {
+        requests.push(params)
+        return { total: 25, deleted: 25 }
+      }
+    }
+    const people = service({
+      Model: Model as any,
+      index: 'people',
+      esVersion: '8.0',
+      multi: true,
+      paginate: { default: 10, max: 50 }
+    })
+
+    beforeEach(() => {
+      requests.length = 0
+    })
+
+    it('should not limit the documents to the default page size', async () => {
+      await people.patch(null, { status: 'archived' }, { query: { status: 'draft' }, byQuery: true } as any)
+      await people.remove(null, { query: { status: 'draft' }, byQuery: true } as any)
+
+      expect(requests).to.have.lengthOf(2)
+      requests.forEach((request) => expect(request).to.not.have.property('max_docs'))
+    })
+
+    it('should limit the documents to an explicit $limit', async () => {
+      await people.patch(null, { status: 'archived' }, { query: { $limit: 5 }, byQuery: true } as any)
+      await people.remove(null, { query: { $limit: 5 }, byQuery: true } as any)
+
+      expect(requests.map((request) => request.max_docs)).to.deep.equal([5, 5])
+    })
+
+    it('should throw BadRequest for empty patch data', async () => {
+      try {
+        await people.patch(null, {}, { query: { status: 'draft' }, byQuery: true } as any)
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('BadRequest')
+        expect(error.message).to.equal('byQuery patch data can not be empty')
+        expect(requests).to.be.empty
+      }
+    })
+
+    it('should throw BadRequest for vector searches', async () => {
+      const queries = {
+        $knn: { status: 'draft', $knn: { field: 'embedding', query_vector: [1, 0] } },
+        $semantic: { status: 'draft', $semantic: 'solar panels' }
+      }
+
+      for (const [name, query] of Object.entries(queries)) {
+        for (const call of [
+          () => people.patch(null, { status: 'archived' }, { query, byQuery: true } as any),
+          () => people.remove(null, { query, byQuery: true } as any)
+        ]) {
+          try {
+            await call()
+            throw new Error('Should never get here')
+          } catch (error: any) {
+            expect(error.name).to.equal('BadRequest')
+            expect(error.message).to.equal(`${name} can not be used with byQuery`)
+          }
+        }
+      }
+
+      expect(requests).to.be.empty
+    })
+  })
+}
@@ -0,0 +1,146 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { createCircuitBreaker } from '../../lib/utils/circuit-breaker.js'
+
+const connectionError = () => Object.assign(new Error('connect ECONNREFUSED'), { name: 'ConnectionError' })
+const fail = (error: Error) => async () => {
+  throw error
+}
+const succeed = async () => 'ok'
+
+export default function circuitBreakerTests() {
+  describe('createCircuitBreaker', () => {
+    let time = 0
+    const now = () => time
+
+    beforeEach(() => {
+      time = 0
+    })
+
+    async function run(breaker: any, operation: () => Promise<unknown>) {
+      try {
+        return await breaker.execute(operation)
+      } catch (error: any) {
+        return error.name
+      }
+    }
+
+    it('should open after consecutive transient failures', async () => {
+      const breaker = createCircuitBreaker({ failureThreshold: 3 }, now)
+
+      await run(breaker, fail(connectionError()))
+      await run(breaker, fail(connectionError()))
+      expect(breaker.state).to.equal('closed')
+      await run(breaker, fail(connectionError()))
+      expect(breaker.state).to.equal('open')
+
+      let calls = 0
+      expect(await run(breaker, async () => (calls += 1))).to.equal('Unavailable')
+      expect(calls).to.equal(0)
+    })
+
+    it('should not count errors which are not transient', async () => {
+      const breaker = createCircuitBreaker({ failureThreshold: 2 }, now)
+      const notFound = Object.assign(new Error('Not found'), { name: 'ResponseError', meta: { statusCode: 404 } })
+
+      await run(breaker, fail(connectionError()))
+      await run(breaker, fail(notFound))
+      await run(breaker, fail(connectionError()))
+
+      expect(breaker.getStatus()).to.include({ state: 'closed', consecutiveFailures: 1, requests: 3 })
+    })
+
+    it('should open when the error rate reaches the threshold', async () => {
+      const breaker = createCircuitBreaker({ errorRate: 0.5, minimumRequests: 4, windowSize: 4 }, now)
+
+      await run(breaker, fail(connectionError()))
+      await run(breaker, succeed)
+      await run(breaker, fail(connectionError()))
+      expect(breaker.state).to.equal('closed')
+      await run(breaker, succeed)
+
+      expect(breaker.state).to.equal('open')
+    })
+
+    it('should let a single trial request through after the cooldown', async () => {
+      const breaker = createCircuitBreaker({ failureThreshold: 1, cooldown: 1000 }, now)
+
+      await run(breaker, fail(connectionError()))
+      expect(breaker.getStatus()).to.deep.equal({
+        state: 'open',
+        consecutiveFailures: 1,
+        requests: 1,
+        errorRate: 1,
+        openedAt: new Date(0).toISOString(),
+        retryAt: new Date(1000).toISOString()
+      })
+
+      time = 1000
+      expect(breaker.state).to.equal('half-open')
+
+      let resolveTrial: (value: string) => void = () => undefined
+      const trial = breaker.execute(() => new Promise((resolve) => (resolveTrial = resolve)))
+
+      expect(await run(breaker, succeed)).to.equal('Unavailable')
+      resolveTrial('ok')
+      expect(await trial).to.equal('ok')
+      expect(breaker.getStatus()).to.include({ state: 'closed', consecutiveFailures: 0, requests: 0 })
+    })
+
+    it('should open again if the trial request fails', async () => {
+      const breaker = createCircuitBreaker({ failureThreshold: 1, cooldown: 1000 }, now)
+
+      await run(breaker, fail(connectionError()))
+      time = 1500
+      expect(await run(breaker, fail(connectionError()))).to.equal('ConnectionError')
+
+      expect(breaker.getStatus()).to.include({ state: 'open', retryAt: new Date(2500).toISOString() })
+
+      breaker.reset()
+      expect(breaker.state).to.equal('closed')
+    })
+  })
+
+  describe('circuit breaker of a service', () => {
+    it('should fail fast while the circuit is open', async () => {
+      let searches = 0
+      const Model = {
+        search: async () => {
+          searches += 1
+          throw connectionError()
+        }
+      }
+      const people = service({
+        Model: Model as any,
+        index: 'people',
+        esVersion: '8.0',
+        retry: { maxRetries: 1, initialDelay: 1 },
+        circuitBreaker: { failureThreshold: 2 }
+      }) as any
+
+      try {
+        await people._find()
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('GeneralError')
+        expect(searches).to.equal(2)
+      }
+
+      expect(people.circuitBreaker.state).to.equal('open')
+
+      try {
+        await people._find()
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('Unavailable')
+        expect(error.data.retryAt).to.be.a('string')
+        expect(searches).to.equal(2)
+      }
+    })
+
+    it('should be disabled by default', () => {
+      expect(service({ Model: {} as any, index: 'people' }).circuitBreaker).to.be.undefined
+    })
+  })
+}
@@ -0,0 +1,164 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { createCompatWrapper, getCompatRequest, validateVersion } from '../../lib/utils/compat.js'
+
+export default function compatTests() {
+  describe('getCompatRequest', () => {
+    it('should keep requests for 8.x and later', () => {
+      const request = { index: 'people', query: { match_all: {} }, track_total_hits: true }
+
+      expect(getCompatRequest('search', request, '8.15.0')).to.deep.equal(request)
+      expect(getCompatRequest('index', { index: 'people', document: { name: 'Bob' } }, '9.0')).to.deep.equal({
+        index: 'people',
+        document: { name: 'Bob' }
+      })
+    })
+
+    it('should send bodies in `body` before 8.0', () => {
+      expect(
+        getCompatRequest('search', { index: 'people', query: { match_all: {} }, size: 5 }, '7.17.0')
+      ).to.deep.equal({ index: 'people', body: { query: { match_all: {} }, size: 5 } })
+      expect(getCompatRequest('index', { index: 'people', id: '1', document: { name: 'Bob' } }, '7.0')).to.deep.equal({
+        index: 'people',
+        id: '1',
+        body: { name: 'Bob' }
+      })
+      expect(
+        getCompatRequest('update', { index: 'people', id: '1', body: { doc: { a: 1 } }, doc_as_upsert: true }, '7.0')
+      ).to.deep.equal({ index: 'people', id: '1', body: { doc: { a: 1 }, doc_as_upsert: true } })
+    })
+
+    it('should address documents by type before 7.0', () => {
+      expect(getCompatRequest('get', { index: 'people', id: '1' }, '6.8.0')).to.deep.equal({
+        index: 'people',
+        id: '1',
+        type: '_doc'
+      })
+      expect(getCompatRequest('delete', { index: 'people', id: '1' }, '5.6')).to.include({ type: 'default' })
+      expect(getCompatRequest('search', { index: 'people' }, '6.0')).to.not.have.property('type')
+    })
+
+    it('should add the type to bulk actions', () => {
+      const operations = [{ index: { _id: '1' } }, { name: 'Bob' }, { delete: { _id: '2' } }, { create: {} }, {}]
+
+      expect(getCompatRequest('bulk', { index: 'people', operations }, '6.0')).to.deep.equal({
+        index: 'people',
+        body: [
+          { index: { _type: '_doc', _id: '1' } },
+          { name: 'Bob' },
+          { delete: { _type: '_doc', _id: '2' } },
+          { create: { _type: '_doc' } },
+          {}
+        ]
+      })
+    })
+
+    it('should not send track_total_hits before 7.0', () => {
+      expect(getCompatRequest('search', { index: 'people', size: 0, track_total_hits: true }, '6.0')).to.deep.equal({
+        index: 'people',
+        body: { size: 0 }
+      })
+    })
+  })
+
+  describe('createCompatWrapper', () => {
+    it('should convert the requests of namespaces', async () => {
+      const requests: any[] = []
+      const client = { indices: { create: async (params: any) => requests.push(params) } }
+
+      await (createCompatWrapper(client, '7.0') as any).indices.create({
+        index: 'people',
+        mappings: { properties: {} }
+      })
+
+      expect(requests).to.deep.equal([{ index: 'people', body: { mappings: { properties: {} } } }])
+      expect(createCompatWrapper(client, '8.0')).to.equal(client)
+    })
+  })
+
+  describe('version detection', () => {
+    it('should reject unsupported versions', () => {
+      expect(validateVersion('8.15.0')).to.equal('8.15.0')
+      expect(() => validateVersion('2.4.0')).to.throw(
+        'Elasticsearch 2.4.0 is not supported, supported versions are 5.0, 6.0, 7.0, 8.0, 8.15, 9.0'
+      )
+    })
+
+    it('should detect the version on first use', async () => {
+      const requests: any[] = []
+      let infos = 0
+      const Model = {
+        info: async () => {
+          infos += 1
+          return { version: { number: '7.17.0' } }
+        },
+        get: async (params: any) => {
+          requests.push(params)
+          return { _id: '1', _source: { name: 'Bob' }, found: true }
+        }
+      }
+      const people = service({ Model: Model as any, index: 'people' })
+
+      expect(people.esVersion).to.be.undefined
+      await people.get('1')
+      await people.get('1')
+
+      expect(infos).to.equal(1)
+      expect(people.esVersion).to.equal('7.17.0')
+      expect(requests[0]).to.include({ index: 'people', id: '1' })
+    })
+
+    it('should not reach the cluster in setup() without index options', async () => {
+      const Model = {
+        info: async () => {
+          throw Object.assign(new Error('connect ECONNREFUSED'), { name: 'ConnectionError' })
+        }
+      }
+      const people = service({ Model: Model as any, index: 'people', retry: false })
+
+      expect(await people.setup()).to.be.undefined
+      expect(people.indexSetup).to.deep.equal({ created: false })
+      expect(people.esVersion).to.be.undefined
+    })
+
+    it('should not detect a configured version', async () => {
+      const Model = {
+        info: async () => {
+          throw new Error('Should never get here')
+        }
+      }
+
+      expect(await service({ Model: Model as any, index: 'people', esVersion: '6.0' }).detectVersion()).to.equal('6.0')
+    })
+
+    it('should detect again after a failed detection', async () => {
+      let infos = 0
+      const Model = {
+        info: async () => {
+          infos += 1
+          if (infos === 1) {
+            throw new Error('Request timed out')
+          }
+          return { version: { number: '1.7.0' } }
+        }
+      }
+      const people = service({ Model: Model as any, index: 'people', retry: false })
+
+      try {
+        await people.detectVersion()
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.message).to.equal('Request timed out')
+      }
+
+      try {
+        await people.detectVersion()
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('GeneralError')
+        expect(infos).to.equal(2)
+      }
+    })
+  })
+}
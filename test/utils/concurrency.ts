@@ -0,0 +1,51 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+
+import { getConcurrencyParams, isVersionConflict } from '../../lib/utils/concurrency.js'
+
+export default function concurrencyTests() {
+  describe('getConcurrencyParams', () => {
+    const service: any = { meta: '_meta', optimisticConcurrency: false }
+
+    it('should return empty params for unconditional writes', () => {
+      expect(getConcurrencyParams(service, { name: 'Bob' }, {})).to.deep.equal({})
+    })
+
+    it('should use explicit params', () => {
+      expect(getConcurrencyParams(service, {}, { ifSeqNo: 4, ifPrimaryTerm: 1 })).to.deep.equal({
+        if_seq_no: 4,
+        if_primary_term: 1,
+      })
+    })
+
+    it('should use the data meta only with optimisticConcurrency enabled', () => {
+      const data = { name: 'Bob', _meta: { _seq_no: '7', _primary_term: '2' } }
+
+      expect(getConcurrencyParams(service, data, {})).to.deep.equal({})
+      expect(getConcurrencyParams({ ...service, optimisticConcurrency: true }, data, {})).to.deep.equal({
+        if_seq_no: 7,
+        if_primary_term: 2,
+      })
+    })
+
+    it('should throw BadRequest for incomplete or invalid values', () => {
+      expect(() => getConcurrencyParams(service, {}, { ifSeqNo: 1 })).to.throw(errors.BadRequest)
+      expect(() => getConcurrencyParams(service, {}, { ifSeqNo: -1, ifPrimaryTerm: 1 })).to.throw(
+        errors.BadRequest
+      )
+      expect(() => getConcurrencyParams(service, {}, { ifSeqNo: 'abc', ifPrimaryTerm: 1 } as any)).to.throw(
+        errors.BadRequest
+      )
+    })
+  })
+
+  describe('isVersionConflict', () => {
+    it('should detect version conflicts', () => {
+      const conflict: any = { meta: { body: { error: { type: 'version_conflict_engine_exception' } } } }
+
+      expect(isVersionConflict(conflict)).to.be.true
+      expect(isVersionConflict({ meta: { statusCode: 409 } } as any)).to.be.true
+      expect(isVersionConflict({ meta: { statusCode: 404 } } as any)).to.be.false
+    })
+  })
+}
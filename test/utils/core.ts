@@ -8,6 +8,7 @@ import {
   getDocDescriptor,
   getCompatVersion,
   getCompatProp,
+  isSupportedVersion,
 } from '../../lib/utils/core.js'
 
 export default function utilsCoreTests() {
@@ -206,6 +207,15 @@ export default function utilsCoreTests() {
       expect(getCompatVersion(allVersions, '6.0')).to.equal('5.0')
     })
 
+    it('should compare minor versions above 9 and ignore patch versions', () => {
+      const allVersions = ['8.0', '8.8', '8.14', '9.0']
+
+      expect(getCompatVersion(allVersions, '8.9')).to.equal('8.8')
+      expect(getCompatVersion(allVersions, '8.15')).to.equal('8.14')
+      expect(getCompatVersion(allVersions, '8.14.3')).to.equal('8.14')
+      expect(getCompatVersion(allVersions, '9.1')).to.equal('9.0')
+    })
+
     it('should return default version if no compatible version found', () => {
       expect(getCompatVersion([], '0.9', '1.0')).to.equal('1.0')
       expect(getCompatVersion(['1.2', '5.3'], '0.9', '1.0')).to.equal('1.0')
@@ -216,6 +226,16 @@ export default function utilsCoreTests() {
     })
   })
 
+  describe('isSupportedVersion', () => {
+    it('should compare the major version', () => {
+      expect(isSupportedVersion('8.15.2')).to.be.true
+      expect(isSupportedVersion('7.17.0')).to.be.true
+      expect(isSupportedVersion('2.11.0')).to.be.false
+      expect(isSupportedVersion('8.1', ['7.0'])).to.be.false
+      expect(isSupportedVersion('')).to.be.false
+    })
+  })
+
   describe('getCompatProp', () => {
     it('should return the value identified by compatible version key', () => {
       const compatMap = {
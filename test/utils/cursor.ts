@@ -0,0 +1,34 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+
+import { encodeCursor, decodeCursor, getCursorSort } from '../../lib/utils/cursor.js'
+
+export default function cursorTests() {
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip the point-in-time id and sort values', () => {
+      const state = { pit: 'pit-id==', after: ['Bob', 12] }
+      const cursor = encodeCursor(state)
+
+      expect(cursor).to.be.a('string').and.not.include('pit-id')
+      expect(decodeCursor(cursor)).to.deep.equal(state)
+    })
+
+    it('should throw BadRequest for malformed cursors', () => {
+      expect(() => decodeCursor(undefined)).to.throw(errors.BadRequest)
+      expect(() => decodeCursor('')).to.throw(errors.BadRequest)
+      expect(() => decodeCursor('not-a-cursor')).to.throw(errors.BadRequest)
+      expect(() => decodeCursor(Buffer.from('{"p":1}').toString('base64url'))).to.throw(errors.BadRequest)
+    })
+  })
+
+  describe('getCursorSort', () => {
+    it('should append the _shard_doc tiebreaker', () => {
+      expect(getCursorSort(undefined)).to.deep.equal([{ _shard_doc: 'asc' }])
+      expect(getCursorSort([{ name: 'asc' }])).to.deep.equal([{ name: 'asc' }, { _shard_doc: 'asc' }])
+    })
+
+    it('should not add a second tiebreaker', () => {
+      expect(getCursorSort([{ _shard_doc: 'desc' }])).to.deep.equal([{ _shard_doc: 'desc' }])
+    })
+  })
+}
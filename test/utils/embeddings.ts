@@ -0,0 +1,129 @@
+import { expect } from 'chai'
+
+import {
+  addEmbeddings,
+  changesSourceFields,
+  embedTexts,
+  getEmbeddingText,
+  getSemanticKnn,
+  validateEmbeddings
+} from '../../lib/utils/index.js'
+
+// Deterministic embedder: counts of the letters a, b and c
+const embed = async (texts: string[]) =>
+  texts.map((text) => ['a', 'b', 'c'].map((letter) => text.split(letter).length - 1))
+
+export default function embeddingsTests() {
+  const embeddings = { field: 'embedding', sourceFields: ['title', 'author.name'], embed }
+
+  describe('getEmbeddingText', () => {
+    it('should join the values of the source fields', () => {
+      expect(getEmbeddingText({ title: 'Abc', author: { name: 'Bob' }, year: 2000 }, embeddings.sourceFields)).to.equal(
+        'Abc\nBob'
+      )
+      expect(getEmbeddingText({ title: ['a', null, 'b'] }, ['title', 'body'])).to.equal('a\nb')
+      expect(getEmbeddingText({ year: 2000 }, embeddings.sourceFields)).to.equal('')
+    })
+  })
+
+  describe('changesSourceFields', () => {
+    it('should check the patched properties', () => {
+      expect(changesSourceFields({ title: 'x' }, embeddings.sourceFields)).to.be.true
+      expect(changesSourceFields({ author: { name: 'x' } }, embeddings.sourceFields)).to.be.true
+      expect(changesSourceFields({ year: 2001, $inc: { views: 1 } }, embeddings.sourceFields)).to.be.false
+    })
+
+    it('should reject update operators on source fields', () => {
+      expect(() => changesSourceFields({ $unset: { 'author.name': '' } }, embeddings.sourceFields)).to.throw(
+        "'$unset' can not change the embedded field 'author.name'"
+      )
+    })
+  })
+
+  describe('embedTexts', () => {
+    it('should embed the texts in batches and skip empty texts', async () => {
+      const calls: string[][] = []
+      const vectors = await embedTexts(
+        {
+          ...embeddings,
+          batchSize: 2,
+          embed: (texts: string[]) => {
+            calls.push(texts)
+            return embed(texts)
+          }
+        },
+        ['a', '', 'bb', 'ccc', 'abc']
+      )
+
+      expect(calls).to.deep.equal([
+        ['a', 'bb'],
+        ['ccc', 'abc']
+      ])
+      expect(vectors).to.deep.equal([[1, 0, 0], null, [0, 2, 0], [0, 0, 3], [1, 1, 1]])
+    })
+
+    it('should check the result of the embed function', async () => {
+      try {
+        await embedTexts({ ...embeddings, embed: async () => [[1, 2, 3]] }, ['a', 'b'])
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('GeneralError')
+        expect(error.message).to.equal('The embed function returned 1 vectors for 2 texts')
+      }
+    })
+  })
+
+  describe('addEmbeddings', () => {
+    it('should add the vector of the source documents', async () => {
+      expect(await addEmbeddings(embeddings, [{ title: 'cab' }, { year: 1 }])).to.deep.equal([
+        { title: 'cab', embedding: [1, 1, 1] },
+        { year: 1, embedding: null }
+      ])
+      expect(await addEmbeddings(embeddings, [{ title: 'a' }], [{ title: 'a', author: { name: 'bb' } }])).to.deep.equal(
+        [{ title: 'a', embedding: [1, 2, 0] }]
+      )
+      expect(await addEmbeddings(undefined, [{ title: 'a' }])).to.deep.equal([{ title: 'a' }])
+    })
+  })
+
+  describe('getSemanticKnn', () => {
+    it('should search the embedding of the text', async () => {
+      expect(await getSemanticKnn('aab', embeddings)).to.deep.equal({
+        field: 'embedding',
+        query_vector: [2, 1, 0]
+      })
+      expect(await getSemanticKnn({ query: 'c', k: 5, hybrid: 'rrf' }, embeddings)).to.deep.equal({
+        k: 5,
+        hybrid: 'rrf',
+        field: 'embedding',
+        query_vector: [0, 0, 1]
+      })
+    })
+
+    it('should reject queries without text or embeddings', async () => {
+      for (const [value, options, message] of [
+        ['a', undefined, '$semantic needs the embeddings option of the service'],
+        [' ', embeddings, "'$semantic.query' can not be empty"],
+        [{ k: 5 }, embeddings, "Invalid type for '$semantic.query'"]
+      ] as const) {
+        try {
+          await getSemanticKnn(value, options as any)
+          throw new Error('Should never get here')
+        } catch (error: any) {
+          expect(error.name).to.equal('BadRequest')
+          expect(error.message).to.contain(message)
+        }
+      }
+    })
+  })
+
+  describe('validateEmbeddings', () => {
+    it('should require a field, source fields and an embed function', () => {
+      expect(() => validateEmbeddings(embeddings)).to.not.throw()
+      expect(() => validateEmbeddings({ ...embeddings, field: '' })).to.throw('`embeddings.field`')
+      expect(() => validateEmbeddings({ ...embeddings, sourceFields: [] })).to.throw('`embeddings.sourceFields`')
+      expect(() => validateEmbeddings({ ...embeddings, embed: undefined } as any)).to.throw('`embeddings.embed`')
+      expect(() => validateEmbeddings({ ...embeddings, batchSize: 0 })).to.throw('`embeddings.batchSize`')
+    })
+  })
+}
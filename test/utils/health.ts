@@ -0,0 +1,98 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+
+const getModel = (overrides: Record<string, any> = {}) => ({
+  info: async () => ({ version: { number: '8.15.0' } }),
+  cluster: { health: async () => ({ cluster_name: 'docker-cluster', status: 'green' }) },
+  indices: { exists: async () => true },
+  cat: {
+    indices: async () => [
+      { index: 'people-v1', health: 'green', 'docs.count': '3' },
+      { index: 'people-v2', health: 'yellow', 'docs.count': '2' }
+    ]
+  },
+  ...overrides
+})
+
+export default function healthTests() {
+  describe('health()', () => {
+    it('should report the cluster, the indices behind the alias and the version', async () => {
+      const people = service({ Model: getModel() as any, index: 'people', esVersion: '8.0' })
+      const { checkedAt, ...health } = await people.health()
+
+      expect(checkedAt).to.be.a('string')
+      expect(health).to.deep.equal({
+        status: 'degraded',
+        ready: true,
+        cluster: { name: 'docker-cluster', status: 'green' },
+        index: {
+          name: 'people',
+          exists: true,
+          alias: true,
+          indices: ['people-v1', 'people-v2'],
+          health: 'yellow',
+          docsCount: 5
+        },
+        version: {
+          distribution: 'elasticsearch',
+          detected: '8.15.0',
+          configured: '8.0',
+          supported: true,
+          supportedVersions: ['5.0', '6.0', '7.0', '8.0', '8.15', '9.0']
+        },
+        circuitBreaker: null,
+        retry: { enabled: true, maxRetries: 3, initialDelay: 100, maxDelay: 5000, backoffMultiplier: 2 },
+        errors: []
+      })
+    })
+
+    it('should report the OpenSearch version of the cluster', async () => {
+      const Model = getModel({ info: async () => ({ version: { number: '2.11.0', distribution: 'opensearch' } }) })
+      const health = await service({ Model: Model as any, index: 'people', distribution: 'opensearch' }).health()
+
+      expect(health.version).to.deep.equal({
+        distribution: 'opensearch',
+        detected: '2.11.0',
+        configured: null,
+        supported: true,
+        supportedVersions: ['1.0', '2.0']
+      })
+    })
+
+    it('should not be ready without the index', async () => {
+      const Model = getModel({ indices: { exists: async () => false } })
+      const health = await service({ Model: Model as any, index: 'people', retry: false }).health()
+
+      expect(health).to.deep.include({
+        status: 'unavailable',
+        ready: false,
+        index: { name: 'people', exists: false, alias: false, indices: [], health: null, docsCount: null }
+      })
+      expect(health.retry.enabled).to.be.false
+    })
+
+    it('should report failed requests instead of throwing', async () => {
+      const Model = getModel({
+        info: async () => {
+          throw new Error('connect ECONNREFUSED')
+        },
+        cluster: {
+          health: async () => {
+            throw new Error('connect ECONNREFUSED')
+          }
+        }
+      })
+      const health = await service({ Model: Model as any, index: 'people', circuitBreaker: true }).health()
+
+      expect(health).to.deep.include({
+        status: 'unavailable',
+        ready: false,
+        cluster: { name: null, status: null },
+        errors: ['cluster.health: connect ECONNREFUSED', 'info: connect ECONNREFUSED']
+      })
+      expect(health.version).to.include({ detected: null, supported: false })
+      expect(health.circuitBreaker).to.include({ state: 'closed', consecutiveFailures: 0 })
+    })
+  })
+}
@@ -0,0 +1,88 @@
+import { expect } from 'chai'
+
+import { getHighlight, mapItem } from '../../lib/utils/index.js'
+
+export default function highlightTests() {
+  describe('getHighlight', () => {
+    it('should return undefined without a highlight', () => {
+      expect(getHighlight(undefined)).to.be.undefined
+    })
+
+    it('should highlight a field or a list of fields', () => {
+      expect(getHighlight('title')).to.deep.equal({ fields: { title: {} }, encoder: 'html' })
+      expect(getHighlight(['title', 'body'])).to.deep.equal({
+        fields: { title: {}, body: {} },
+        encoder: 'html'
+      })
+    })
+
+    it('should accept a highlight configuration', () => {
+      expect(
+        getHighlight({
+          fields: { title: { number_of_fragments: 0 }, body: { fragment_size: 100 } },
+          pre_tags: ['<mark class="hit">'],
+          post_tags: ['</mark>'],
+          number_of_fragments: 3
+        })
+      ).to.deep.equal({
+        fields: { title: { number_of_fragments: 0 }, body: { fragment_size: 100 } },
+        pre_tags: ['<mark class="hit">'],
+        post_tags: ['</mark>'],
+        number_of_fragments: 3,
+        encoder: 'html'
+      })
+    })
+
+    it('should reject unknown options and invalid values', () => {
+      expect(() => getHighlight({ fields: ['title'], encoder: 'default' })).to.throw(
+        "Invalid highlight option '$highlight.encoder'"
+      )
+      expect(() => getHighlight({ fields: { title: { highlight_query: {} } } })).to.throw(
+        "Invalid highlight option '$highlight.fields.title.highlight_query'"
+      )
+      expect(() => getHighlight({ fields: ['title'], fragment_size: -1 })).to.throw(
+        "Invalid value for '$highlight.fragment_size': expected a non-negative integer"
+      )
+      expect(() => getHighlight({ fields: [] })).to.throw("'$highlight.fields' must name at least one field")
+      expect(() => getHighlight({ pre_tags: ['<em>'] })).to.throw("'$highlight.fields' must name at least one field")
+    })
+
+    it('should only allow formatting tags', () => {
+      expect(() => getHighlight({ fields: ['title'], pre_tags: ['<script>'] })).to.throw(
+        "Invalid highlight tag in '$highlight.pre_tags': <script>"
+      )
+      expect(() => getHighlight({ fields: ['title'], pre_tags: ['<em onclick="x()">'] })).to.throw(
+        'Invalid highlight tag'
+      )
+      expect(() => getHighlight({ fields: ['title'], post_tags: ['<em>'] })).to.throw(
+        "Invalid highlight tag in '$highlight.post_tags': <em>"
+      )
+    })
+  })
+
+  describe('mapItem with highlights', () => {
+    const hit = {
+      _id: '1',
+      _score: 1.5,
+      _source: { title: 'Hello' },
+      highlight: { title: ['<em>Hello</em>'] }
+    }
+
+    it('should keep the highlight and score in the metadata', () => {
+      expect(mapItem(hit, 'id', '_meta')).to.deep.equal({
+        _meta: { _id: '1', _score: 1.5, highlight: { title: ['<em>Hello</em>'] } },
+        id: '1',
+        title: 'Hello'
+      })
+    })
+
+    it('should map the highlight to a property', () => {
+      expect(mapItem(hit, 'id', '_meta', undefined, '_highlight')).to.deep.equal({
+        _meta: { _id: '1', _score: 1.5 },
+        _highlight: { title: ['<em>Hello</em>'] },
+        id: '1',
+        title: 'Hello'
+      })
+    })
+  })
+}
@@ -4,6 +4,27 @@ import { mapFind, mapGet, mapPatch, mapBulk } from '../../lib/utils/index.js'
 
 import parseQueryTests from './parse-query.js'
 import coreUtilsTests from './core.js'
+import aggregationsTests from './aggregations.js'
+import cursorTests from './cursor.js'
+import concurrencyTests from './concurrency.js'
+import updateOperatorsTests from './update-operators.js'
+import byQueryTests from './by-query.js'
+import tasksTests from './tasks.js'
+import reindexTests from './reindex.js'
+import bulkTests from './bulk.js'
+import mappingsTests from './mappings.js'
+import schemaMappingsTests from './schema-mappings.js'
+import queryMappingTests from './query-mapping.js'
+import operatorsTests from './operators.js'
+import searchTests from './search.js'
+import highlightTests from './highlight.js'
+import knnTests from './knn.js'
+import embeddingsTests from './embeddings.js'
+import retryTests from './retry.js'
+import circuitBreakerTests from './circuit-breaker.js'
+import healthTests from './health.js'
+import compatTests from './compat.js'
+import openSearchTests from './opensearch.js'
 
 describe('Elasticsearch utils', () => {
   describe('mapFind', () => {
@@ -95,6 +116,17 @@ describe('Elasticsearch utils', () => {
         expectedResult
       )
     })
+
+    it('should unwrap responses from their body', () => {
+      const response: any = { body: sourceResults, statusCode: 200, headers: {}, meta: {} }
+
+      expect(mapFind(response, '_id', '_meta', undefined, {}, true)).to.deep.equal({
+        total: 2,
+        skip: 0,
+        limit: 0,
+        data: mappedResults,
+      })
+    })
   })
 
   describe('mapGet', () => {
@@ -161,6 +193,12 @@ describe('Elasticsearch utils', () => {
       mapGet(item, '_id', '_meta')
       expect(item).to.deep.equal(JSON.parse(itemSnapshot))
     })
+
+    it('should unwrap responses from their body', () => {
+      const response: any = { body: item, statusCode: 200, headers: {}, meta: {} }
+
+      expect(mapGet(response, '_id', '_meta')).to.deep.equal(mapGet(item, '_id', '_meta'))
+    })
   })
 
   describe('mapPatch', () => {
@@ -262,8 +300,39 @@ describe('Elasticsearch utils', () => {
       mapBulk(items, 'id', '_meta')
       expect(items).to.deep.equal(JSON.parse(itemsSnapshot))
     })
+
+    it('should take the bulk response, also in a body', () => {
+      const items: any[] = [{ index: { result: 'created', _id: '13' } }]
+      const expectedResult = [{ id: '13', _meta: { result: 'created', _id: '13' } }]
+
+      expect(mapBulk({ items } as any, 'id', '_meta')).to.deep.equal(expectedResult)
+      expect(
+        mapBulk({ body: { errors: false, items }, statusCode: 200 } as any, 'id', '_meta')
+      ).to.deep.equal(expectedResult)
+    })
   })
 
   parseQueryTests()
   coreUtilsTests()
+  aggregationsTests()
+  cursorTests()
+  concurrencyTests()
+  updateOperatorsTests()
+  byQueryTests()
+  tasksTests()
+  reindexTests()
+  bulkTests()
+  mappingsTests()
+  schemaMappingsTests()
+  queryMappingTests()
+  operatorsTests()
+  searchTests()
+  highlightTests()
+  knnTests()
+  embeddingsTests()
+  retryTests()
+  circuitBreakerTests()
+  healthTests()
+  compatTests()
+  openSearchTests()
 })
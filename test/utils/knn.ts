@@ -0,0 +1,176 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { prepareFind } from '../../lib/methods/find.js'
+import { getKnnRequest, getVectorFields, usesRankFusion } from '../../lib/utils/index.js'
+
+export default function knnTests() {
+  const esQuery = {
+    must: [{ match: { body: 'space' } }],
+    filter: [{ term: { category: 'news' } }],
+    must_not: [{ term: { draft: true } }]
+  }
+
+  describe('getVectorFields', () => {
+    it('should get the dimensions of dense_vector fields', () => {
+      const mappings = {
+        properties: {
+          title: { type: 'text' },
+          embedding: { type: 'dense_vector', dims: 3 },
+          chapters: { type: 'nested', properties: { embedding: { type: 'dense_vector', dims: 2 } } }
+        }
+      }
+
+      expect(getVectorFields(mappings)).to.deep.equal({ embedding: 3, 'chapters.embedding': 2 })
+      expect(getVectorFields(undefined)).to.deep.equal({})
+    })
+  })
+
+  describe('getKnnRequest', () => {
+    it('should return undefined without $knn', () => {
+      expect(getKnnRequest(undefined, esQuery)).to.be.undefined
+    })
+
+    it('should filter the kNN search with the query', () => {
+      expect(getKnnRequest({ field: 'embedding', query_vector: [0.1, 0.2, 0.3], k: 5 }, esQuery)).to.deep.equal({
+        knn: {
+          field: 'embedding',
+          query_vector: [0.1, 0.2, 0.3],
+          k: 5,
+          num_candidates: 50,
+          filter: { bool: esQuery }
+        }
+      })
+      expect(
+        getKnnRequest({ field: 'embedding', query_vector: [1], num_candidates: 20, similarity: 0.5 }, null)
+      ).to.deep.equal({
+        knn: { field: 'embedding', query_vector: [1], k: 10, num_candidates: 20, similarity: 0.5 }
+      })
+    })
+
+    it('should validate the vector against the field dimensions', () => {
+      const options = { vectorFields: { embedding: 3 } }
+
+      expect(() => getKnnRequest({ field: 'embedding', query_vector: [1, 2] }, null, options)).to.throw(
+        "'$knn.query_vector' has 2 dimensions, field 'embedding' has 3"
+      )
+      expect(() => getKnnRequest({ field: 'title', query_vector: [1, 2, 3] }, null, options)).to.throw(
+        "Field 'title' is not a vector field"
+      )
+      expect(() => getKnnRequest({ field: 'embedding', query_vector: [1, 'a', 3] }, null, options)).to.throw(
+        'non-empty list of numbers'
+      )
+    })
+
+    it('should reject invalid options', () => {
+      const knn = { field: 'embedding', query_vector: [1] }
+
+      expect(() => getKnnRequest({ ...knn, script: 'x' }, null)).to.throw("Invalid option '$knn.script'")
+      expect(() => getKnnRequest({ ...knn, k: 0 }, null)).to.throw("Invalid value for '$knn.k'")
+      expect(() => getKnnRequest({ ...knn, k: 20, num_candidates: 10 }, null)).to.throw('can not be less')
+      expect(() => getKnnRequest({ ...knn, hybrid: 'linear' }, esQuery)).to.throw('$knn.hybrid.method')
+      expect(() => getKnnRequest({ ...knn, hybrid: 'rrf' }, null)).to.throw('needs query operators')
+    })
+
+    it('should combine weighted scores', () => {
+      const knn = {
+        field: 'embedding',
+        query_vector: [1],
+        k: 5,
+        hybrid: { method: 'weighted', query_weight: 0.3, knn_weight: 0.7 }
+      }
+
+      expect(getKnnRequest(knn, esQuery)).to.deep.equal({
+        query: { bool: { ...esQuery, boost: 0.3 } },
+        knn: {
+          field: 'embedding',
+          query_vector: [1],
+          k: 5,
+          num_candidates: 50,
+          filter: { bool: { filter: esQuery.filter, must_not: esQuery.must_not } },
+          boost: 0.7
+        }
+      })
+    })
+
+    it('should fuse the rankings with the syntax of the Elasticsearch version', () => {
+      const knn = { field: 'embedding', query_vector: [1], k: 5, hybrid: { method: 'rrf', rank_constant: 20 } }
+      const knnQuery = {
+        field: 'embedding',
+        query_vector: [1],
+        k: 5,
+        num_candidates: 50,
+        filter: { bool: { filter: esQuery.filter, must_not: esQuery.must_not } }
+      }
+
+      expect(getKnnRequest(knn, esQuery, { esVersion: '8.15' })).to.deep.equal({
+        retriever: {
+          rrf: {
+            retrievers: [{ standard: { query: { bool: esQuery } } }, { knn: knnQuery }],
+            rank_constant: 20,
+            rank_window_size: 100
+          }
+        }
+      })
+      expect(getKnnRequest(knn, esQuery, { esVersion: '8.10' })).to.deep.equal({
+        query: { bool: esQuery },
+        knn: knnQuery,
+        rank: { rrf: { rank_constant: 20, window_size: 100 } }
+      })
+      expect(() => getKnnRequest(knn, esQuery, { esVersion: '7.0' })).to.throw('needs Elasticsearch 8.8')
+    })
+  })
+
+  describe('usesRankFusion', () => {
+    it('should detect reciprocal rank fusion', () => {
+      expect(usesRankFusion({ hybrid: 'rrf' })).to.be.true
+      expect(usesRankFusion({ hybrid: { method: 'rrf' } })).to.be.true
+      expect(usesRankFusion({ hybrid: 'weighted' })).to.be.false
+      expect(usesRankFusion(undefined)).to.be.false
+    })
+  })
+
+  describe('kNN queries in find', () => {
+    const knnService = service({ Model: {} as any, index: 'articles' }) as any
+    const $knn = { field: 'embedding', query_vector: [1] }
+
+    it('should rank by similarity unless sorted or fused', () => {
+      expect(prepareFind(knnService, { query: { $knn } }).filters.$sort).to.deep.equal([{ _score: 'desc' }])
+      expect(prepareFind(knnService, { query: { $knn, $sort: { date: 1 } } }).filters.$sort).to.deep.equal([
+        { date: 'asc' }
+      ])
+      expect(prepareFind(knnService, { query: { $knn: { ...$knn, hybrid: 'rrf' } } }).filters.$sort).to.be.undefined
+    })
+
+    it('should reject vector searches when iterating', async () => {
+      const people = service({ Model: {} as any, index: 'articles', esVersion: '8.0' })
+
+      for (const [name, query] of Object.entries({ $knn: { $knn }, $semantic: { $semantic: 'space' } })) {
+        const documents = people.iterate({ query } as any)[Symbol.asyncIterator]()
+
+        try {
+          await documents.next()
+          throw new Error('Should never get here')
+        } catch (error: any) {
+          expect(error.name).to.equal('BadRequest')
+          expect(error.message).to.equal(`${name} can not be used when iterating`)
+        }
+      }
+    })
+
+    it('should reject an unmapped vector field if enabled', () => {
+      const fields = { embedding: { type: 'dense_vector' }, title: { type: 'text' } }
+      const strictService = service({
+        Model: {} as any,
+        index: 'articles',
+        queryMapping: { rejectUnmapped: true }
+      }) as any
+
+      expect(() => prepareFind(strictService, { query: { $knn } }, fields)).to.not.throw()
+      expect(() => prepareFind(knnService, { query: { $knn: { ...$knn, field: 'vector' } } }, fields)).to.not.throw()
+      expect(() => prepareFind(strictService, { query: { $knn: { ...$knn, field: 'vector' } } }, fields)).to.throw(
+        "Field 'vector' is not mapped"
+      )
+    })
+  })
+}
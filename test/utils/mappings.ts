@@ -0,0 +1,78 @@
+import { expect } from 'chai'
+
+import { diffMappings, getIndexBody, getMappingProperties } from '../../lib/utils/mappings.js'
+
+export default function mappingsTests() {
+  describe('getMappingProperties', () => {
+    it('should get the properties of the ES version', () => {
+      const properties = { name: { type: 'keyword' } }
+
+      expect(getMappingProperties({ mappings: { properties } }, '8.0')).to.equal(properties)
+      expect(getMappingProperties({ mappings: { _doc: { properties } } }, '6.0')).to.equal(properties)
+      expect(getMappingProperties({ mappings: {} }, '8.0')).to.deep.equal({})
+    })
+  })
+
+  describe('getIndexBody', () => {
+    it('should only include declared parts', () => {
+      expect(getIndexBody({ settings: { number_of_shards: 1 } })).to.deep.equal({
+        settings: { number_of_shards: 1 },
+      })
+    })
+
+    it('should wrap mappings in a type for older ES versions', () => {
+      const mappings = { properties: { name: { type: 'keyword' } } }
+
+      expect(getIndexBody({ mappings, aliases: { people: {} } }, '8.0')).to.deep.equal({
+        mappings,
+        aliases: { people: {} },
+      })
+      expect(getIndexBody({ mappings }, '6.0')).to.deep.equal({ mappings: { _doc: mappings } })
+    })
+  })
+
+  describe('diffMappings', () => {
+    const live = {
+      name: { type: 'text', analyzer: 'english', fields: { raw: { type: 'keyword' } } },
+      address: { properties: { city: { type: 'keyword' } } },
+      dynamic: { type: 'long' },
+    }
+
+    it('should report no differences for matching mappings', () => {
+      expect(
+        diffMappings({ properties: { name: live.name, address: { type: 'object', properties: {} } } }, live)
+      ).to.deep.equal({ added: [], conflicts: [] })
+    })
+
+    it('should report new fields and multi-fields', () => {
+      const declared = {
+        properties: {
+          name: { type: 'text', analyzer: 'english', fields: { raw: { type: 'keyword' }, sort: { type: 'keyword' } } },
+          address: { properties: { city: { type: 'keyword' }, zip: { type: 'keyword' } } },
+          age: { type: 'integer' },
+        },
+      }
+
+      expect(diffMappings(declared, live)).to.deep.equal({
+        added: ['name.sort', 'address.zip', 'age'],
+        conflicts: [],
+      })
+    })
+
+    it('should report incompatible changes', () => {
+      const declared = {
+        properties: {
+          name: { type: 'text', analyzer: 'standard' },
+          address: { type: 'nested' },
+          dynamic: { type: 'keyword' },
+        },
+      }
+
+      expect(diffMappings(declared, live).conflicts).to.deep.equal([
+        { field: 'name', parameter: 'analyzer', declared: 'standard', live: 'english' },
+        { field: 'address', parameter: 'type', declared: 'nested', live: 'object' },
+        { field: 'dynamic', parameter: 'type', declared: 'keyword', live: 'long' },
+      ])
+    })
+  })
+}
@@ -0,0 +1,210 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { validateOpenSearchRequest } from '../../lib/utils/compat.js'
+
+type Distribution = 'elasticsearch' | 'opensearch'
+
+const notFound = (id: string) =>
+  Object.assign(new Error(`Document ${id} not found`), {
+    name: 'ResponseError',
+    meta: { statusCode: 404, body: { _id: id, found: false } }
+  })
+
+/**
+ * An in-memory stand-in for a cluster and its client. The 8.x Elasticsearch client takes request bodies
+ * as top-level parameters and resolves to the response body. The OpenSearch client only takes them
+ * in `body`, and resolves to `{ body, statusCode, headers, meta }`.
+ */
+function createStandIn(distribution: Distribution) {
+  const opensearch = distribution === 'opensearch'
+  const docs = new Map<string, Record<string, unknown>>()
+  let lastId = 0
+
+  const getBody = (params: any, keys: string[]) => {
+    if (opensearch) {
+      keys.forEach((key) => expect(params[key], key).to.equal(undefined))
+      return params.body || {}
+    }
+
+    return keys.reduce((body, key) => (params[key] === undefined ? body : { ...body, [key]: params[key] }), {
+      ...params.body
+    })
+  }
+  const respond = async (body: unknown) => (opensearch ? { body, statusCode: 200, headers: {}, meta: {} } : body)
+  const getHit = (index: string, id: string) => ({ _index: index, _id: id, _source: docs.get(id) })
+  const write = (action: string, index: string, id: string | undefined, doc: Record<string, unknown>) => {
+    const _id = id ?? `doc-${(lastId += 1)}`
+
+    if (action === 'create' && docs.has(_id)) {
+      return { _index: index, _id, status: 409, error: { type: 'version_conflict_engine_exception' } }
+    }
+
+    docs.set(_id, doc)
+
+    return { _index: index, _id, status: 201, result: 'created' }
+  }
+
+  const client: Record<string, any> = {
+    info: () =>
+      respond({
+        version: opensearch ? { distribution: 'opensearch', number: '2.11.0' } : { number: '8.15.0' }
+      }),
+    index: (params: any) =>
+      respond(write('index', params.index, params.id, opensearch ? params.body : params.document)),
+    create: (params: any) =>
+      respond(write('create', params.index, params.id, opensearch ? params.body : params.document)),
+    get: async (params: any) => {
+      if (!docs.has(params.id)) {
+        throw notFound(params.id)
+      }
+
+      return respond({ ...getHit(params.index, params.id), found: true })
+    },
+    mget: (params: any) => {
+      const { docs: requested } = getBody(params, ['docs'])
+
+      return respond({
+        docs: requested.map(({ _index, _id }: any) =>
+          docs.has(_id) ? { ...getHit(_index, _id), found: true } : { _index, _id, found: false }
+        )
+      })
+    },
+    search: (params: any) => {
+      const { size = 10 } = getBody(params, ['query', 'size', 'from', 'sort', '_source', 'track_total_hits'])
+      const ids = [...docs.keys()]
+
+      return respond({
+        hits: {
+          total: { value: ids.length, relation: 'eq' },
+          hits: ids.slice(0, size).map((id) => getHit(params.index, id))
+        }
+      })
+    },
+    bulk: (params: any) => {
+      const operations = opensearch ? params.body : (params.operations ?? params.body)
+      const items = []
+
+      for (let position = 0; position < operations.length; position += 2) {
+        const [action] = Object.keys(operations[position])
+        const { _index, _id } = operations[position][action]
+
+        items.push({ [action]: write(action, _index || params.index, _id, operations[position + 1]) })
+      }
+
+      return respond({ errors: items.some((item: any) => item.create?.status === 409), items })
+    }
+  }
+
+  if (!opensearch) {
+    client.openPointInTime = async () => ({ id: 'pit' })
+  }
+
+  return client
+}
+
+export default function openSearchTests() {
+  describe('validateOpenSearchRequest', () => {
+    it('should reject features which OpenSearch does not have', () => {
+      expect(() => validateOpenSearchRequest('search', { knn: {} })).to.throw(
+        'kNN search ($knn, $semantic) is not supported by OpenSearch'
+      )
+      expect(() => validateOpenSearchRequest('search', { retriever: {} })).to.throw(
+        'Reciprocal rank fusion ($knn.hybrid) is not supported by OpenSearch'
+      )
+      expect(() => validateOpenSearchRequest('openPointInTime', { index: 'people' })).to.throw(
+        'Point-in-time search (params.cursor, $after, iterate()) is not supported by OpenSearch'
+      )
+      expect(() =>
+        validateOpenSearchRequest('search', { query: { bool: { must: [{ combined_fields: { query: 'x' } }] } } })
+      ).to.throw('combined_fields queries ($search, $multiMatch) is not supported by OpenSearch')
+      expect(() => validateOpenSearchRequest('search', { query: { match_all: {} } })).to.not.throw()
+    })
+  })
+
+  describe('configured opensearch mode', () => {
+    it('should unwrap responses without detecting the version', async () => {
+      const Model = createStandIn('opensearch')
+      const people = service({ Model: Model as any, index: 'people', esVersion: '7.10', distribution: 'opensearch' })
+
+      Model.info = async () => {
+        throw new Error('Should never get here')
+      }
+
+      expect(await people.create({ name: 'Bob' })).to.include({ _id: 'doc-1', name: 'Bob' })
+      expect(await people.get('doc-1')).to.include({ _id: 'doc-1', name: 'Bob' })
+    })
+  })
+
+  const distributions: Distribution[] = ['elasticsearch', 'opensearch']
+
+  distributions.forEach((distribution) => {
+    describe(`${distribution} mode`, () => {
+      const getService = () =>
+        service({
+          Model: createStandIn(distribution) as any,
+          index: 'people',
+          id: 'id',
+          multi: true,
+          paginate: { default: 10, max: 50 },
+          retry: false
+        })
+
+      it('should detect the distribution', async () => {
+        const people = getService()
+
+        await people.detectVersion()
+
+        expect(people.distribution).to.equal(distribution)
+        expect(people.esVersion).to.equal(distribution === 'opensearch' ? '7.10' : '8.15.0')
+      })
+
+      it('should create, get and find documents', async () => {
+        const people = getService()
+
+        const created = await people.create({ id: '1', name: 'Bob' })
+        const [bulkCreated] = (await people.create([{ id: '2', name: 'Alice' }])) as any[]
+
+        expect(created).to.include({ id: '1', name: 'Bob' })
+        expect(bulkCreated).to.include({ id: '2', name: 'Alice' })
+        expect(await people.get('1')).to.include({ id: '1', name: 'Bob' })
+
+        const { total, data } = (await people.find({ query: {} })) as any
+
+        expect(total).to.equal(2)
+        expect(data.map(({ name }: any) => name)).to.deep.equal(['Bob', 'Alice'])
+      })
+
+      it('should report conflicts and missing documents', async () => {
+        const people = getService()
+
+        await people.create({ id: '1', name: 'Bob' })
+
+        try {
+          await people.get('2')
+          throw new Error('Should never get here')
+        } catch (error: any) {
+          expect(error.name).to.equal('NotFound')
+        }
+      })
+
+      it('should report features which the distribution does not have', async () => {
+        const people = getService()
+        const query = { $knn: { field: 'embedding', query_vector: [1, 0] } }
+
+        if (distribution === 'elasticsearch') {
+          expect(await people.find({ query, paginate: false })).to.deep.equal([])
+          return
+        }
+
+        try {
+          await people.find({ query })
+          throw new Error('Should never get here')
+        } catch (error: any) {
+          expect(error.name).to.equal('NotImplemented')
+          expect(error.message).to.equal('kNN search ($knn, $semantic) is not supported by OpenSearch')
+        }
+      })
+    })
+  })
+}
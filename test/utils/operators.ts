@@ -0,0 +1,137 @@
+import { expect } from 'chai'
+
+import { getCustomOperators, getOperatorWeights } from '../../lib/utils/operators.js'
+import { parseQuery } from '../../lib/utils/parse-query.js'
+import { calculateQueryComplexity } from '../../lib/utils/security.js'
+
+export default function operatorsTests() {
+  const between = {
+    kind: 'criteria' as const,
+    compile: (value: any, { field }: any) => ({ range: { [field]: { gte: value[0], lte: value[1] } } }),
+    complexity: 4
+  }
+  const boosted = {
+    kind: 'special' as const,
+    section: 'should' as const,
+    compile: (value: any, { parse }: any) => ({ bool: { ...parse(value.$query), boost: value.$boost } })
+  }
+
+  describe('getCustomOperators', () => {
+    it('should ignore the Feathers list of operators', () => {
+      expect(getCustomOperators(['$between'], [])).to.deep.equal({})
+      expect(getCustomOperators(undefined, [])).to.deep.equal({})
+    })
+
+    it('should return valid custom operators', () => {
+      const operators = { $between: between }
+
+      expect(getCustomOperators(operators, ['$match'])).to.equal(operators)
+    })
+
+    it('should reject invalid operators', () => {
+      expect(() => getCustomOperators({ between } as any, [])).to.throw('Custom operator between has to start with $')
+      expect(() => getCustomOperators({ $match: between }, ['$match'])).to.throw(
+        'Custom operator $match can not replace a built-in operator'
+      )
+      expect(() => getCustomOperators({ $op: { kind: 'other', compile: () => null } } as any, [])).to.throw(
+        "Custom operator $op needs a kind ('criteria' or 'special') and a compile function"
+      )
+      expect(() => getCustomOperators({ $op: { ...between, section: 'query' } } as any, [])).to.throw(
+        'Custom operator $op has an invalid section query'
+      )
+      expect(() => getCustomOperators({ $op: { ...between, cacheable: 'yes' } } as any, [])).to.throw(
+        'Custom operator $op needs a boolean cacheable flag'
+      )
+    })
+  })
+
+  describe('getOperatorWeights', () => {
+    it('should get the complexity of every operator', () => {
+      expect(getOperatorWeights({ $between: between, $boosted: boosted })).to.deep.equal({
+        $between: 4,
+        $boosted: 0
+      })
+    })
+  })
+
+  describe('parseQuery with custom operators', () => {
+    const operators = { $between: between, $boosted: boosted }
+
+    it('should compile criteria and special operators', () => {
+      const query = {
+        age: { $between: [18, 30], $ne: 20 },
+        $boosted: { $query: { name: 'Bob' }, $boost: 2 }
+      }
+
+      expect(parseQuery(query, '_id', 50, 0, operators)).to.deep.equal({
+        filter: [{ range: { age: { gte: 18, lte: 30 } } }],
+        must_not: [{ term: { age: 20 } }],
+        should: [{ bool: { filter: [{ term: { name: 'Bob' } }], boost: 2 } }]
+      })
+    })
+
+    it('should compile custom operators in sub-queries', () => {
+      expect(parseQuery({ $or: [{ age: { $between: [1, 2] } }] }, '_id', 50, 0, operators)).to.deep.equal({
+        should: [{ bool: { filter: [{ range: { age: { gte: 1, lte: 2 } } }] } }],
+        minimum_should_match: 1
+      })
+    })
+
+    it('should not share cached queries between operator sets', () => {
+      const other = { $between: { ...between, compile: () => ({ match_all: {} }) } }
+      const query = { age: { $between: [1, 2] } }
+
+      expect(parseQuery(query, '_id', 50, 0, operators)).to.deep.equal({
+        filter: [{ range: { age: { gte: 1, lte: 2 } } }]
+      })
+      expect(parseQuery(query, '_id', 50, 0, other)).to.deep.equal({ filter: [{ match_all: {} }] })
+      expect(parseQuery(query, '_id')).to.be.null
+    })
+
+    it('should only cache queries with cacheable operators', () => {
+      let calls = 0
+      const counted = (cacheable?: boolean) => ({
+        $since: {
+          kind: 'criteria' as const,
+          cacheable,
+          compile: (value: any, { field }: any) => ({ range: { [field]: { gte: `now-${value}`, calls: ++calls } } })
+        }
+      })
+      const dynamic = counted()
+      const cached = counted(true)
+      const query = { $or: [{ createdAt: { $since: '1d' } }] }
+
+      parseQuery(query, '_id', 50, 0, dynamic)
+      expect(parseQuery(query, '_id', 50, 0, dynamic)).to.deep.equal({
+        should: [{ bool: { filter: [{ range: { createdAt: { gte: 'now-1d', calls: 2 } } }] } }],
+        minimum_should_match: 1
+      })
+
+      calls = 0
+      parseQuery(query, '_id', 50, 0, cached)
+      parseQuery(query, '_id', 50, 0, cached)
+      expect(calls).to.equal(1)
+    })
+  })
+
+  describe('calculateQueryComplexity with custom operators', () => {
+    it('should add the weight of custom operators', () => {
+      const query = { age: { $between: [1, 2] } }
+
+      expect(calculateQueryComplexity(query)).to.equal(4)
+      expect(calculateQueryComplexity(query, { $between: 4 })).to.equal(6)
+      expect(calculateQueryComplexity({ $or: [query] }, { $between: 4 })).to.equal(1 + 6 * 2)
+    })
+
+    it('should add the sub-queries of custom operators', () => {
+      const $query = { $or: [{ name: { $wildcard: '*a*' } }] }
+
+      expect(calculateQueryComplexity({ $boosted: { $query, $boost: 2 } }, { $boosted: 5 })).to.equal(
+        1 + 5 + 2 + calculateQueryComplexity($query)
+      )
+      expect(calculateQueryComplexity({ $any: [$query, $query] }, { $any: 1 })).to.equal(
+        1 + 1 + 2 * calculateQueryComplexity($query)
+      )
+    })
+  })
+}
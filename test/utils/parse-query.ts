@@ -1,6 +1,8 @@
 import { expect } from 'chai'
 import { errors } from '@feathersjs/errors'
 import { parseQuery } from '../../lib/utils/index.js'
+import { MAX_POLYGON_POINTS } from '../../lib/utils/query-handlers/geo.js'
+import { calculateQueryComplexity } from '../../lib/utils/security.js'
 
 export default function parseQueryTests() {
   describe('parseQuery', () => {
@@ -529,6 +531,124 @@ export default function parseQueryTests() {
       })
     })
 
+    it('should return "geo_distance" query for $geoDistance', () => {
+      const query = {
+        location: { $geoDistance: { $distance: '10km', $point: { lat: 52.5, lon: 13.4 } } },
+      }
+      const expectedResult = {
+        filter: [{ geo_distance: { distance: '10km', location: { lat: 52.5, lon: 13.4 } } }],
+      }
+
+      expect(parseQuery(query, '_id')).to.deep.equal(expectedResult)
+    })
+
+    it('should return "geo_bounding_box" query for $geoBoundingBox', () => {
+      const query = {
+        location: { $geoBoundingBox: { $topLeft: [13.0, 52.7], $bottomRight: '52.3,13.8' } },
+      }
+      const expectedResult = {
+        filter: [
+          {
+            geo_bounding_box: {
+              location: { top_left: [13.0, 52.7], bottom_right: '52.3,13.8' },
+            },
+          },
+        ],
+      }
+
+      expect(parseQuery(query, '_id')).to.deep.equal(expectedResult)
+    })
+
+    it('should return "geo_shape" polygon query for $geoPolygon', () => {
+      const points = [{ lat: 52.5, lon: 13.3 }, [13.4, 52.6], '52.4,13.5']
+      const query = { location: { $geoPolygon: { $points: points } } }
+      const expectedResult = {
+        filter: [
+          {
+            geo_shape: {
+              location: {
+                shape: {
+                  type: 'polygon',
+                  coordinates: [
+                    [
+                      [13.3, 52.5],
+                      [13.4, 52.6],
+                      [13.5, 52.4],
+                      [13.3, 52.5],
+                    ],
+                  ],
+                },
+                relation: 'intersects',
+              },
+            },
+          },
+        ],
+      }
+
+      expect(parseQuery(query, '_id')).to.deep.equal(expectedResult)
+    })
+
+    it('should decode geohash points of $geoPolygon', () => {
+      const result = parseQuery({ location: { $geoPolygon: { $points: ['u33', 'u36', 'u31'] } } }, '_id') as any
+      const [first] = result.filter[0].geo_shape.location.shape.coordinates[0]
+
+      // Centre of the cell of u33
+      expect(first).to.deep.equal([13.359375, 52.734375])
+    })
+
+    it('should limit the points of $geoPolygon', () => {
+      const points = Array.from({ length: MAX_POLYGON_POINTS + 1 }, (_, i) => [i / 1000, 1])
+
+      expect(() => parseQuery({ location: { $geoPolygon: { $points: points } } } as any)).to.throw(
+        errors.BadRequest,
+        `expected 3 to ${MAX_POLYGON_POINTS} points`
+      )
+    })
+
+    it('should cost more for $geoPolygon with more points', () => {
+      const getCost = (length: number) =>
+        calculateQueryComplexity({
+          location: { $geoPolygon: { $points: Array.from({ length }, (_, i) => [i, 1]) } }
+        })
+
+      expect(getCost(3)).to.equal(1 + 1 + 5 + 1)
+      expect(getCost(200)).to.equal(1 + 1 + 5 + 20)
+    })
+
+    it('should return "geo_shape" query for $geoShape with "intersects" relation by default', () => {
+      const shape = { type: 'envelope', coordinates: [[13.0, 52.7], [13.8, 52.3]] }
+      const query = { area: { $geoShape: { $shape: shape } } }
+      const expectedResult = {
+        filter: [{ geo_shape: { area: { shape, relation: 'intersects' } } }],
+      }
+
+      expect(parseQuery(query, '_id')).to.deep.equal(expectedResult)
+      expect(
+        parseQuery({ area: { $geoShape: { $shape: shape, $relation: 'within' } } }, '_id')
+      ).to.deep.equal({
+        filter: [{ geo_shape: { area: { shape, relation: 'within' } } }],
+      })
+    })
+
+    it('should throw BadRequest for invalid geo operator values', () => {
+      expect(() => parseQuery({ location: { $geoDistance: '10km' } } as any)).to.throw(errors.BadRequest)
+      expect(() => parseQuery({ location: { $geoDistance: { $distance: '10km' } } } as any)).to.throw(
+        errors.BadRequest
+      )
+      expect(() =>
+        parseQuery({ location: { $geoDistance: { $distance: '1km', $point: { lat: 1 } } } } as any)
+      ).to.throw(errors.BadRequest)
+      expect(() =>
+        parseQuery({ location: { $geoBoundingBox: { $topLeft: [1, 2, 3], $bottomRight: [1, 2] } } } as any)
+      ).to.throw(errors.BadRequest)
+      expect(() => parseQuery({ location: { $geoPolygon: { $points: [[1, 2], [3, 4]] } } } as any)).to.throw(
+        errors.BadRequest
+      )
+      expect(() =>
+        parseQuery({ area: { $geoShape: { $shape: { type: 'point' }, $relation: 'near' } } } as any)
+      ).to.throw(errors.BadRequest)
+    })
+
     it('should return all types of queries together', () => {
       const query = {
         $or: [
@@ -0,0 +1,176 @@
+import { expect } from 'chai'
+
+import { getMappedFields, translateQuery, validateMappedFields } from '../../lib/utils/query-mapping.js'
+
+export default function queryMappingTests() {
+  const fields = getMappedFields({
+    title: { type: 'text', fields: { raw: { type: 'keyword' } } },
+    body: { type: 'text' },
+    age: { type: 'integer' },
+    active: { type: 'boolean' },
+    createdAt: { type: 'date' },
+    address: { properties: { city: { type: 'text', fields: { keyword: { type: 'keyword' } } } } },
+    comments: { type: 'nested', properties: { votes: { type: 'long' } } }
+  })
+
+  describe('getMappedFields', () => {
+    it('should flatten fields, objects and multi-fields', () => {
+      expect(fields).to.deep.equal({
+        title: { type: 'text', keyword: 'title.raw' },
+        'title.raw': { type: 'keyword' },
+        body: { type: 'text' },
+        age: { type: 'integer' },
+        active: { type: 'boolean' },
+        createdAt: { type: 'date' },
+        address: { type: 'object' },
+        'address.city': { type: 'text', keyword: 'address.city.keyword' },
+        'address.city.keyword': { type: 'keyword' },
+        comments: { type: 'nested' },
+        'comments.votes': { type: 'long' }
+      })
+    })
+  })
+
+  describe('translateQuery', () => {
+    it('should use the keyword subfield for exact matches on text fields', () => {
+      const query = {
+        filter: [{ term: { title: 'Hello' } }, { terms: { 'address.city': ['Berlin'] } }, { term: { body: 'x' } }],
+        must: [{ match: { title: 'hello' } }],
+        must_not: [{ term: { title: 'Bye' } }]
+      }
+
+      expect(translateQuery(query, fields)).to.deep.equal({
+        filter: [
+          { term: { 'title.raw': 'Hello' } },
+          { terms: { 'address.city.keyword': ['Berlin'] } },
+          { term: { body: 'x' } }
+        ],
+        must: [{ match: { title: 'hello' } }],
+        must_not: [{ term: { 'title.raw': 'Bye' } }]
+      })
+      expect(query.filter[0]).to.deep.equal({ term: { title: 'Hello' } })
+    })
+
+    it('should use the keyword subfield for prefix, pattern and range clauses on text fields', () => {
+      const query = {
+        filter: [
+          { prefix: { title: 'Hel' } },
+          { wildcard: { 'address.city': 'B*n' } },
+          { regexp: { title: 'H.*o' } },
+          { range: { title: { gte: 'A', lt: 'M' } } },
+          { prefix: { body: 'x' } },
+          { wildcard: { age: '1*' } }
+        ]
+      }
+
+      expect(translateQuery(query, fields)).to.deep.equal({
+        filter: [
+          { prefix: { 'title.raw': 'Hel' } },
+          { wildcard: { 'address.city.keyword': 'B*n' } },
+          { regexp: { 'title.raw': 'H.*o' } },
+          { range: { 'title.raw': { gte: 'A', lt: 'M' } } },
+          { prefix: { body: 'x' } },
+          { wildcard: { age: '1*' } }
+        ]
+      })
+    })
+
+    it('should coerce values to the mapped type', () => {
+      const query = {
+        filter: [
+          { term: { age: '5' } },
+          { terms: { active: ['true', 'false'] } },
+          { range: { createdAt: { gte: '1700000000000', lt: 'now-1d' } } }
+        ],
+        must: [
+          {
+            nested: {
+              path: 'comments',
+              query: { bool: { filter: [{ range: { 'comments.votes': { gt: '10' } } }] } }
+            }
+          }
+        ],
+        should: [{ bool: { filter: [{ term: { age: 7 } }] } }],
+        minimum_should_match: 1
+      }
+
+      expect(translateQuery(query, fields)).to.deep.equal({
+        filter: [
+          { term: { age: 5 } },
+          { terms: { active: [true, false] } },
+          { range: { createdAt: { gte: 1700000000000, lt: 'now-1d' } } }
+        ],
+        must: [
+          {
+            nested: {
+              path: 'comments',
+              query: { bool: { filter: [{ range: { 'comments.votes': { gt: 10 } } }] } }
+            }
+          }
+        ],
+        should: [{ bool: { filter: [{ term: { age: 7 } }] } }],
+        minimum_should_match: 1
+      })
+    })
+
+    it('should reject values which do not match the field type', () => {
+      expect(() => translateQuery({ filter: [{ term: { age: 'five' } }] }, fields)).to.throw(
+        "Invalid value 'five' for numeric field 'age'"
+      )
+      expect(() => translateQuery({ filter: [{ term: { active: 'yes' } }] }, fields)).to.throw(
+        "Invalid value 'yes' for boolean field 'active'"
+      )
+    })
+
+    it('should reject unmapped fields if enabled', () => {
+      const query = { filter: [{ term: { unknown: 'x' } }, { term: { _id: 'a' } }] }
+
+      expect(translateQuery(query, fields)).to.deep.equal(query)
+      expect(() => translateQuery(query, fields, { rejectUnmapped: true })).to.throw("Field 'unknown' is not mapped")
+      expect(() =>
+        translateQuery({ must: [{ exists: { field: 'missing' } }] }, fields, { rejectUnmapped: true })
+      ).to.throw("Field 'missing' is not mapped")
+      expect(() =>
+        translateQuery({ must: [{ simple_query_string: { fields: ['title^2', 'other'], query: 'x' } }] }, fields, {
+          rejectUnmapped: true
+        })
+      ).to.throw("Field 'other' is not mapped")
+      expect(() =>
+        translateQuery({ filter: [{ geo_distance: { distance: '1km', location: [0, 0] } }] }, fields, {
+          rejectUnmapped: true
+        })
+      ).to.throw("Field 'location' is not mapped")
+    })
+
+    it('should reject unmapped fields of multi_match and combined_fields if enabled', () => {
+      const multiMatch = { must: [{ multi_match: { fields: ['title^3', 'other'], query: 'x' } }] }
+      const combined = { must: [{ combined_fields: { fields: ['body', 'missing'], query: 'x' } }] }
+
+      expect(translateQuery(multiMatch, fields)).to.deep.equal(multiMatch)
+      expect(() => translateQuery(multiMatch, fields, { rejectUnmapped: true })).to.throw("Field 'other' is not mapped")
+      expect(() => translateQuery(combined, fields, { rejectUnmapped: true })).to.throw("Field 'missing' is not mapped")
+    })
+  })
+
+  describe('validateMappedFields', () => {
+    it('should ignore boosts and patterns', () => {
+      expect(() =>
+        validateMappedFields(['title^2', 'address.*', 'age'], fields, { rejectUnmapped: true })
+      ).to.not.throw()
+      expect(() => validateMappedFields(['embedding'], fields)).to.not.throw()
+      expect(() => validateMappedFields(['embedding'], fields, { rejectUnmapped: true })).to.throw(
+        "Field 'embedding' is not mapped"
+      )
+    })
+
+    it('should know the subfields of search_as_you_type fields', () => {
+      const suggest = getMappedFields({ name: { type: 'search_as_you_type' } })
+
+      expect(() =>
+        validateMappedFields(['name', 'name._2gram', 'name._3gram', 'name._index_prefix'], suggest, {
+          rejectUnmapped: true
+        })
+      ).to.not.throw()
+    })
+  })
+}
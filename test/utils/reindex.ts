@@ -0,0 +1,109 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+
+export default function reindexTests() {
+  describe('reindexTo()', () => {
+    const getService = (Model: Record<string, any>, calls: string[]) => {
+      const record =
+        (name: string, result: (params: any) => any = () => ({})) =>
+        async (params: any) => {
+          calls.push(name)
+          return result(params)
+        }
+
+      return service({
+        Model: {
+          indices: {
+            getAlias: record('indices.getAlias', () => ({ 'people-v1': { aliases: { people: {} } } })),
+            create: record('indices.create'),
+            putSettings: record('indices.putSettings'),
+            refresh: record('indices.refresh'),
+            updateAliases: record('indices.updateAliases'),
+            delete: record('indices.delete')
+          },
+          tasks: {
+            get: record('tasks.get', () => ({
+              completed: true,
+              task: { action: 'indices:data/write/reindex', description: 'reindex from [people] to [people-v2]' },
+              response: { total: 3, created: 3, updated: 0, deleted: 0, failures: [] }
+            })),
+            cancel: record('tasks.cancel')
+          },
+          reindex: record('reindex', () => ({ task: 'node:1' })),
+          openPointInTime: record('openPointInTime', () => ({ id: 'pit' })),
+          closePointInTime: record('closePointInTime'),
+          ...Model
+        } as any,
+        index: 'people',
+        esVersion: '8.0',
+        retry: false
+      }) as any
+    }
+
+    it('should remove documents deleted from the old index during the copy', async () => {
+      const calls: string[] = []
+      const deletes: any[] = []
+      const people = getService(
+        {
+          count: async ({ index }: any) => ({ count: index === 'people-v1' ? 2 : 3 }),
+          search: async () => ({
+            hits: {
+              hits: [
+                { _id: 'a', sort: [1] },
+                { _id: 'b', _routing: 'x', sort: [2] },
+                { _id: 'c', sort: [3] }
+              ]
+            }
+          }),
+          mget: async ({ docs }: any) => ({ docs: docs.map(({ _id }: any) => ({ _id, found: _id !== 'b' })) }),
+          bulk: async ({ operations }: any) => {
+            deletes.push(...operations)
+            return { items: [] }
+          }
+        },
+        calls
+      )
+
+      const result = await people.reindexTo(undefined, undefined, { pollInterval: 1 })
+
+      expect(result).to.include({ from: 'people-v1', to: 'people-v2', removed: 1 })
+      expect(deletes).to.deep.equal([{ delete: { _index: 'people-v2', _id: 'b', routing: 'x' } }])
+      expect(calls).to.include('closePointInTime')
+    })
+
+    it('should cancel the copy before deleting the new index', async () => {
+      const calls: string[] = []
+      const people = getService(
+        {
+          tasks: {
+            get: async () => {
+              calls.push('tasks.get')
+              return {
+                completed: false,
+                task: {
+                  action: 'indices:data/write/reindex',
+                  description: 'reindex from [people] to [people-v2]',
+                  status: { total: 3, created: 1 }
+                }
+              }
+            },
+            cancel: async (params: any) => {
+              calls.push(`tasks.cancel ${params.task_id}`)
+              return {}
+            }
+          }
+        },
+        calls
+      )
+
+      try {
+        await people.reindexTo(undefined, undefined, { pollInterval: 1, timeout: 5 })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('Timeout')
+        expect(calls.indexOf('tasks.cancel node:1')).to.be.within(0, calls.indexOf('indices.delete'))
+      }
+    })
+  })
+}
@@ -0,0 +1,146 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { createRetryWrapper, isIdempotentRequest } from '../../lib/utils/retry.js'
+
+const connectionError = () => Object.assign(new Error('connect ECONNREFUSED'), { name: 'ConnectionError' })
+
+export default function retryTests() {
+  describe('isIdempotentRequest', () => {
+    it('should retry reads', () => {
+      expect(isIdempotentRequest('search', { index: 'people' })).to.be.true
+      expect(isIdempotentRequest('indices.getMapping', { index: 'people' })).to.be.true
+    })
+
+    it('should only retry writes with the same effect when repeated', () => {
+      expect(isIdempotentRequest('index', { index: 'people', id: '1', document: {} })).to.be.true
+      expect(isIdempotentRequest('index', { index: 'people', document: {} })).to.be.false
+      expect(isIdempotentRequest('create', { index: 'people', id: '1', document: {} })).to.be.false
+      expect(isIdempotentRequest('update', { id: '1', body: { doc: { name: 'Bob' } } })).to.be.true
+      expect(isIdempotentRequest('update', { id: '1', body: { script: { source: '' } } })).to.be.false
+      expect(isIdempotentRequest('update', { id: '1', body: { script: { source: '' } }, if_seq_no: 3 })).to.be.true
+      expect(isIdempotentRequest('delete', { id: '1' })).to.be.false
+      expect(isIdempotentRequest('bulk', { body: [] })).to.be.false
+    })
+  })
+
+  describe('createRetryWrapper', () => {
+    it('should retry idempotent requests with transient errors', async () => {
+      const attempts: any[] = []
+      let calls = 0
+      const client = createRetryWrapper(
+        {
+          indices: {
+            getMapping: async () => {
+              calls += 1
+              if (calls < 3) {
+                throw connectionError()
+              }
+              return { ok: true }
+            }
+          }
+        },
+        { initialDelay: 1, onRetry: (attempt) => attempts.push(attempt) },
+        isIdempotentRequest
+      ) as any
+
+      expect(await client.indices.getMapping({ index: 'people' })).to.deep.equal({ ok: true })
+      expect(calls).to.equal(3)
+      expect(attempts.map(({ method, attempt, delay }) => ({ method, attempt, delay }))).to.deep.equal([
+        { method: 'indices.getMapping', attempt: 1, delay: 1 },
+        { method: 'indices.getMapping', attempt: 2, delay: 2 }
+      ])
+    })
+
+    it('should not retry other requests', async () => {
+      let calls = 0
+      const client = createRetryWrapper(
+        {
+          index: async () => {
+            calls += 1
+            throw connectionError()
+          }
+        },
+        { initialDelay: 1 },
+        isIdempotentRequest
+      ) as any
+
+      try {
+        await client.index({ index: 'people', document: {} })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('ConnectionError')
+        expect(calls).to.equal(1)
+      }
+    })
+  })
+
+  describe('retries of service calls', () => {
+    const searches: number[] = []
+    const Model = {
+      search: async () => {
+        searches.push(searches.length)
+        if (searches.length === 1) {
+          throw connectionError()
+        }
+        return { hits: { hits: [], total: { value: 0, relation: 'eq' } } }
+      }
+    }
+
+    beforeEach(() => {
+      searches.length = 0
+    })
+
+    it('should retry reads with the merged retry config', async () => {
+      const attempts: any[] = []
+      const people = service({
+        Model: Model as any,
+        index: 'people',
+        esVersion: '8.0',
+        retry: { initialDelay: 1 }
+      }) as any
+
+      const result = await people._find({ retry: { onRetry: (attempt: any) => attempts.push(attempt) } })
+
+      expect(result).to.deep.equal([])
+      expect(searches).to.have.lengthOf(2)
+      expect(attempts.map(({ method, attempt, delay }) => ({ method, attempt, delay }))).to.deep.equal([
+        { method: 'search', attempt: 1, delay: 1 }
+      ])
+    })
+
+    it('should not log retries to the console', async () => {
+      const warn = console.warn
+      const warnings: unknown[] = []
+      const people = service({ Model: Model as any, index: 'people', esVersion: '8.0', retry: { initialDelay: 1 } })
+
+      console.warn = (...args: unknown[]) => warnings.push(args)
+
+      try {
+        await people.find({})
+      } finally {
+        console.warn = warn
+      }
+
+      expect(searches).to.have.lengthOf(2)
+      expect(warnings).to.be.empty
+    })
+
+    it('should not retry if disabled for the call', async () => {
+      const people = service({
+        Model: Model as any,
+        index: 'people',
+        esVersion: '8.0',
+        retry: { initialDelay: 1 }
+      }) as any
+
+      try {
+        await people._find({ retry: false })
+        throw new Error('Should never get here')
+      } catch (error: any) {
+        expect(error.name).to.equal('GeneralError')
+        expect(searches).to.have.lengthOf(1)
+      }
+    })
+  })
+}
@@ -0,0 +1,175 @@
+import { expect } from 'chai'
+
+import { schemaToMappings } from '../../lib/utils/schema-mappings.js'
+
+export default function schemaMappingsTests() {
+  describe('schemaToMappings', () => {
+    it('should map primitive types and string formats', () => {
+      const { properties } = schemaToMappings({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['active', 'blocked'] },
+          createdAt: { type: 'string', format: 'date-time' },
+          ip: { type: 'string', format: 'ipv4' },
+          email: { type: 'string', format: 'email' },
+          age: { type: 'integer' },
+          score: { type: 'number' },
+          active: { type: 'boolean' }
+        }
+      })
+
+      expect(properties).to.deep.equal({
+        name: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } },
+        status: { type: 'keyword' },
+        createdAt: { type: 'date' },
+        ip: { type: 'ip' },
+        email: { type: 'keyword' },
+        age: { type: 'long' },
+        score: { type: 'double' },
+        active: { type: 'boolean' }
+      })
+    })
+
+    it('should map objects and nest arrays of objects', () => {
+      const { properties } = schemaToMappings(
+        {
+          type: 'object',
+          properties: {
+            address: { type: 'object', properties: { city: { type: 'string', enum: ['Berlin'] } } },
+            tags: { type: 'array', items: { type: 'string', const: 'a' } },
+            contacts: { type: 'array', items: { type: 'object', properties: { phone: { type: 'integer' } } } },
+            extra: { type: 'object' }
+          }
+        },
+        { ignoreAbove: 100 }
+      )
+
+      expect(properties).to.deep.equal({
+        address: { properties: { city: { type: 'keyword' } } },
+        tags: { type: 'keyword' },
+        contacts: { type: 'nested', properties: { phone: { type: 'long' } } },
+        extra: { type: 'object' }
+      })
+      expect(
+        schemaToMappings(
+          { type: 'object', properties: { list: { type: 'array', items: { type: 'object', properties: {} } } } },
+          { arrays: 'object' }
+        ).properties.list
+      ).to.deep.equal({ type: 'object', properties: {} })
+    })
+
+    it('should merge or replace x-es annotations', () => {
+      const { properties } = schemaToMappings({
+        type: 'object',
+        properties: {
+          title: { type: 'string', 'x-es': { analyzer: 'english' } },
+          location: {
+            type: 'object',
+            properties: { lat: { type: 'number' }, lon: { type: 'number' } },
+            'x-es': { type: 'geo_point' }
+          },
+          embedding: {
+            type: 'array',
+            items: { type: 'number' },
+            minItems: 3,
+            maxItems: 3,
+            'x-es': { type: 'dense_vector' }
+          },
+          relation: { type: 'string', 'x-es': { type: 'join', relations: { post: 'comment' } } },
+          author: { type: 'object', properties: { name: { type: 'string', enum: ['a'] } }, 'x-es': { type: 'nested' } },
+          internal: { type: 'string', 'x-es': false }
+        }
+      })
+
+      expect(properties).to.deep.equal({
+        title: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } }, analyzer: 'english' },
+        location: { type: 'geo_point' },
+        embedding: { type: 'dense_vector', dims: 3 },
+        relation: { type: 'join', relations: { post: 'comment' } },
+        author: { type: 'nested', properties: { name: { type: 'keyword' } } }
+      })
+    })
+
+    it('should resolve references, nullable types and unions', () => {
+      const { properties } = schemaToMappings({
+        $defs: { Address: { type: 'object', properties: { zip: { type: 'integer' } } } },
+        type: 'object',
+        properties: {
+          address: { $ref: '#/$defs/Address' },
+          nickname: { type: ['string', 'null'], format: 'uuid' },
+          birthday: { anyOf: [{ type: 'null' }, { type: 'string', format: 'date' }] },
+          role: { anyOf: [{ const: 'admin' }, { const: 'user' }] }
+        }
+      })
+
+      expect(properties).to.deep.equal({
+        address: { properties: { zip: { type: 'long' } } },
+        nickname: { type: 'keyword' },
+        birthday: { type: 'date' },
+        role: { type: 'keyword' }
+      })
+    })
+
+    it('should leave fields without a type to dynamic mapping', () => {
+      const { properties } = schemaToMappings({
+        type: 'object',
+        properties: {
+          name: { type: 'string', enum: ['a'] },
+          data: {},
+          value: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+          mixed: { type: ['string', 'boolean', 'null'] },
+          amount: { anyOf: [{ type: 'integer' }, { type: 'number' }] },
+          list: { type: 'array', items: {} },
+          annotated: { 'x-es': { type: 'keyword' } }
+        }
+      })
+
+      expect(properties).to.deep.equal({
+        name: { type: 'keyword' },
+        amount: { type: 'double' },
+        annotated: { type: 'keyword' }
+      })
+    })
+
+    it('should stop at recursive references', () => {
+      const { properties } = schemaToMappings({
+        $ref: '#/$defs/Comment',
+        $defs: {
+          Comment: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', enum: ['a'] },
+              author: { $ref: '#/$defs/Author' },
+              replies: { type: 'array', items: { $ref: '#/$defs/Comment' } }
+            }
+          },
+          Author: { type: 'object', properties: { name: { type: 'string', format: 'email' } } }
+        }
+      })
+
+      expect(properties).to.deep.equal({
+        text: { type: 'keyword' },
+        author: { properties: { name: { type: 'keyword' } } }
+      })
+    })
+
+    it('should exclude top-level properties', () => {
+      const { properties } = schemaToMappings(
+        { type: 'object', properties: { id: { type: 'string' }, age: { type: 'integer' } } },
+        { exclude: ['id'] }
+      )
+
+      expect(properties).to.deep.equal({ age: { type: 'long' } })
+    })
+
+    it('should reject schemas which are not objects or have unresolvable references', () => {
+      expect(() => schemaToMappings({ type: 'string' })).to.throw(
+        'Mappings can only be generated from an object schema with properties'
+      )
+      expect(() => schemaToMappings({ type: 'object', properties: { a: { $ref: 'other.json#/a' } } })).to.throw(
+        "Can not resolve schema reference 'other.json#/a'"
+      )
+    })
+  })
+}
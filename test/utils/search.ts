@@ -0,0 +1,122 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+import { prepareFind } from '../../lib/methods/find.js'
+import { getSearchOperators, hasFullTextQuery } from '../../lib/utils/query-handlers/search.js'
+
+export default function searchTests() {
+  const context = { parse: () => null }
+
+  describe('getSearchOperators', () => {
+    const { $search, $multiMatch } = getSearchOperators(['title^3', 'body'], [])
+
+    it('should search the configured fields', () => {
+      expect($search.compile('hello', context)).to.deep.equal({
+        multi_match: { query: 'hello', fields: ['title^3', 'body'], type: 'best_fields' }
+      })
+      expect(
+        $search.compile({ $query: 'hello', $fuzziness: 'AUTO', $operator: 'and', $minimumShouldMatch: '75%' }, context)
+      ).to.deep.equal({
+        multi_match: {
+          query: 'hello',
+          fields: ['title^3', 'body'],
+          type: 'best_fields',
+          fuzziness: 'AUTO',
+          operator: 'and',
+          minimum_should_match: '75%'
+        }
+      })
+      expect($search.section).to.equal('must')
+    })
+
+    it('should search the searchable fields or all fields by default', () => {
+      expect(getSearchOperators([], ['name']).$search.compile('x', context)).to.deep.equal({
+        multi_match: { query: 'x', fields: ['name'], type: 'best_fields' }
+      })
+      expect(getSearchOperators([], []).$search.compile('x', context)).to.deep.equal({
+        multi_match: { query: 'x', type: 'best_fields' }
+      })
+    })
+
+    it('should search explicit fields with $multiMatch', () => {
+      expect(
+        $multiMatch.compile({ $query: 'new york', $fields: ['city^2', 'street'], $type: 'cross_fields' }, context)
+      ).to.deep.equal({
+        multi_match: { query: 'new york', fields: ['city^2', 'street'], type: 'cross_fields' }
+      })
+      expect(
+        $multiMatch.compile({ $query: 'new york', $fields: ['city', 'street'], $type: 'combined_fields' }, context)
+      ).to.deep.equal({
+        combined_fields: { query: 'new york', fields: ['city', 'street'] }
+      })
+    })
+
+    it('should reject invalid options', () => {
+      expect(() => $multiMatch.compile({ $query: 'x' }, context)).to.throw()
+      expect(() => $search.compile({ $query: 'x', $type: 'fuzzy' }, context)).to.throw(
+        "Invalid value for '$search.$type': fuzzy"
+      )
+      expect(() => $search.compile({ $query: 'x', $operator: 'xor' }, context)).to.throw(
+        "Invalid value for '$search.$operator': expected 'and' or 'or'"
+      )
+      expect(() => $search.compile({ $query: 'x', $type: 'phrase', $fuzziness: 1 }, context)).to.throw(
+        "'$search.$fuzziness' can not be used with type phrase"
+      )
+      expect(() =>
+        getSearchOperators([], []).$search.compile({ $query: 'x', $type: 'combined_fields' }, context)
+      ).to.throw("'$search' needs search fields for type combined_fields")
+    })
+
+    it('should autocomplete search_as_you_type fields', () => {
+      expect(getSearchOperators([], []).$autocomplete.compile('quick br', { ...context, field: 'name' })).to.deep.equal(
+        {
+          multi_match: { query: 'quick br', type: 'bool_prefix', fields: ['name', 'name._2gram', 'name._3gram'] }
+        }
+      )
+      expect(() =>
+        getSearchOperators([], ['title']).$autocomplete.compile('x', { ...context, field: 'name' })
+      ).to.throw("Field 'name' is not searchable. Allowed fields: title")
+    })
+
+    it('should check the fields against the searchable fields', () => {
+      expect(() => getSearchOperators(['title', 'secret'], ['title']).$search.compile('x', context)).to.throw(
+        "Field 'secret' is not searchable. Allowed fields: title"
+      )
+      expect(() =>
+        getSearchOperators([], ['title']).$multiMatch.compile({ $query: 'x', $fields: ['title^2', 'secret'] }, context)
+      ).to.throw("Field 'secret' is not searchable. Allowed fields: title")
+    })
+
+    it('should be cacheable', () => {
+      const operators = getSearchOperators([], [])
+
+      expect(Object.values(operators).every((operator) => operator.cacheable)).to.be.true
+    })
+  })
+
+  describe('hasFullTextQuery', () => {
+    it('should find full-text operators in sub-queries', () => {
+      expect(hasFullTextQuery({ name: 'x', age: { $gt: 1 } })).to.be.false
+      expect(hasFullTextQuery({ $search: 'x' })).to.be.true
+      expect(hasFullTextQuery({ $or: [{ bio: { $match: 'x' } }] })).to.be.true
+    })
+  })
+
+  describe('full-text queries in find', () => {
+    const searchService = service({ Model: {} as any, index: 'articles', searchFields: ['title^3', 'body'] }) as any
+
+    it('should rank by relevance unless sorted', () => {
+      const { filters, esQuery } = prepareFind(searchService, { query: { $search: 'hello', published: true } })
+
+      expect(filters.$sort).to.deep.equal([{ _score: 'desc' }])
+      expect(esQuery).to.deep.equal({
+        must: [{ multi_match: { query: 'hello', fields: ['title^3', 'body'], type: 'best_fields' } }],
+        filter: [{ term: { published: true } }]
+      })
+      expect(
+        prepareFind(searchService, { query: { $search: 'hello', $sort: { date: -1 } } }).filters.$sort
+      ).to.deep.equal([{ date: 'desc' }])
+      expect(prepareFind(searchService, { query: { published: true } }).filters.$sort).to.be.undefined
+    })
+  })
+}
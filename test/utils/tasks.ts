@@ -0,0 +1,48 @@
+import { expect } from 'chai'
+
+import service from '../../lib/index.js'
+
+export default function tasksTests() {
+  describe('tasks', () => {
+    const getService = (description: string, calls: string[] = []) =>
+      service({
+        Model: {
+          tasks: {
+            get: async () => ({
+              completed: false,
+              task: { action: 'indices:data/write/delete/byquery', description, status: { total: 2, deleted: 1 } }
+            }),
+            cancel: async ({ task_id }: any) => {
+              calls.push(`cancel ${task_id}`)
+              return {}
+            }
+          }
+        } as any,
+        index: 'people',
+        esVersion: '8.0',
+        security: { allowedIndices: ['people-archive'] }
+      }) as any
+
+    it('should get tasks on the indices of the service', async () => {
+      const status = await getService('delete-by-query [people, people-archive]').getTask('node:1')
+
+      expect(status).to.include({ id: 'node:1', completed: false })
+    })
+
+    it('should reject tasks which also operate on other indices', async () => {
+      const calls: string[] = []
+      const other = getService('delete-by-query [people, accounts]', calls)
+
+      for (const method of ['getTask', 'cancelTask']) {
+        try {
+          await other[method]('node:1')
+          throw new Error('Should never get here')
+        } catch (error: any) {
+          expect(error.name).to.equal('Forbidden')
+        }
+      }
+
+      expect(calls).to.deep.equal([])
+    })
+  })
+}
@@ -0,0 +1,93 @@
+import { expect } from 'chai'
+import { errors } from '@feathersjs/errors'
+
+import {
+  compileUpdateScript,
+  hasUpdateOperators,
+  getUpdateBody,
+  getRetryOnConflict,
+} from '../../lib/utils/update-operators.js'
+
+export default function updateOperatorsTests() {
+  describe('hasUpdateOperators', () => {
+    it('should detect update operators', () => {
+      expect(hasUpdateOperators({ $inc: { views: 1 } })).to.be.true
+      expect(hasUpdateOperators({ name: 'Bob' })).to.be.false
+    })
+  })
+
+  describe('compileUpdateScript', () => {
+    it('should pass fields and values as params', () => {
+      const script = compileUpdateScript({
+        name: 'Bob',
+        $inc: { 'stats.views': 2 },
+        $push: { tags: 'new' },
+        $addToSet: { labels: { $each: ['a', 'b'] } },
+        $pull: { old: ['x', 'y'] },
+        $unset: ['legacy'],
+      })
+
+      expect(script.lang).to.equal('painless')
+      expect(script.params).to.deep.equal({
+        p0: ['name'],
+        v0: 'Bob',
+        p1: ['stats', 'views'],
+        v1: 2,
+        p2: ['tags'],
+        v2: ['new'],
+        p3: ['labels'],
+        v3: ['a', 'b'],
+        p4: ['old'],
+        v4: ['x', 'y'],
+        p5: ['legacy'],
+      })
+      expect(script.source.split('\n')).to.have.lengthOf(6)
+      expect(script.source).to.not.include('Bob').and.not.include('views')
+    })
+
+    it('should support $unset with an object', () => {
+      expect(compileUpdateScript({ $unset: { a: 1, b: '' } }).params).to.deep.equal({
+        p0: ['a'],
+        p1: ['b'],
+      })
+    })
+
+    it('should drop prototype pollution keys', () => {
+      const data = JSON.parse('{ "$inc": { "__proto__": 1, "views": 1 } }')
+
+      expect(compileUpdateScript(data).params).to.deep.equal({ p0: ['views'], v0: 1 })
+    })
+
+    it('should throw BadRequest for invalid operators and values', () => {
+      expect(() => compileUpdateScript({ $rename: { a: 'b' } })).to.throw(errors.BadRequest)
+      expect(() => compileUpdateScript({ $inc: { views: 'one' } })).to.throw(errors.BadRequest)
+      expect(() => compileUpdateScript({ $inc: 1 })).to.throw(errors.BadRequest)
+      expect(() => compileUpdateScript({ $push: { tags: { $each: 'a' } } })).to.throw(errors.BadRequest)
+      expect(() => compileUpdateScript({ $inc: { 'a..b': 1 } })).to.throw(errors.BadRequest)
+    })
+  })
+
+  describe('getUpdateBody', () => {
+    it('should return a partial doc without operators', () => {
+      expect(getUpdateBody({ name: 'Bob' })).to.deep.equal({ doc: { name: 'Bob' } })
+    })
+
+    it('should return a script with operators', () => {
+      expect(getUpdateBody({ $inc: { views: 1 } })).to.have.property('script')
+    })
+  })
+
+  describe('getRetryOnConflict', () => {
+    it('should retry scripted updates by default', () => {
+      expect(getRetryOnConflict({ $inc: { views: 1 } })).to.deep.equal({ retry_on_conflict: 3 })
+      expect(getRetryOnConflict({ name: 'Bob' })).to.deep.equal({})
+      expect(getRetryOnConflict({ name: 'Bob' }, { retryOnConflict: 1 })).to.deep.equal({
+        retry_on_conflict: 1,
+      })
+    })
+
+    it('should not retry conditional writes', () => {
+      expect(getRetryOnConflict({ $inc: { views: 1 } }, {}, { if_seq_no: 1 })).to.deep.equal({})
+    })
+  })
+}